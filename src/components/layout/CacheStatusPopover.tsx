@@ -0,0 +1,88 @@
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Database, Trash2 } from 'lucide-react';
+import { useOfflineCacheStatus } from '@/hooks/useOfflineCacheStatus';
+
+interface CacheStatusPopoverProps {
+  tilesInMemory: number;
+}
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} kB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const formatDate = (date: Date | null): string =>
+  date ? date.toLocaleDateString('de-AT', { day: '2-digit', month: '2-digit', year: 'numeric' }) : '–';
+
+// Status bar entry showing what the offline cache holds, per data source
+const CacheStatusPopover = ({ tilesInMemory }: CacheStatusPopoverProps) => {
+  const { status, loading, refresh, clear } = useOfflineCacheStatus();
+  const totalBytes = status?.namespaces.reduce((sum, entry) => sum + entry.bytes, 0) ?? 0;
+
+  return (
+    <Popover onOpenChange={open => open && refresh()}>
+      <PopoverTrigger asChild>
+        <button type="button" className="flex items-center gap-1 underline decoration-dotted hover:text-foreground">
+          <Database className="w-3 h-3" />
+          Cache: {tilesInMemory} tiles{status && `, ${formatBytes(totalBytes)} offline`}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 text-xs space-y-3">
+        <div className="flex items-center justify-between">
+          <p className="font-medium">Offline cache</p>
+          {loading && <span className="text-muted-foreground">Updating…</span>}
+        </div>
+
+        {status && !status.persistent && (
+          <p className="text-muted-foreground">
+            IndexedDB is not available, so cached data is lost on reload.
+          </p>
+        )}
+
+        {status?.namespaces.map(entry => (
+          <div key={entry.namespace} className="space-y-1">
+            <div className="flex items-center justify-between">
+              <span className="font-medium">{entry.policy.label}</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 px-1"
+                onClick={() => clear(entry.namespace)}
+                disabled={entry.entries === 0}
+                title={`Clear ${entry.policy.label}`}
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+            <Progress value={Math.min(100, (entry.bytes / entry.policy.maxBytes) * 100)} className="h-1" />
+            <p className="text-muted-foreground">
+              {entry.entries} entries · {formatBytes(entry.bytes)} of {formatBytes(entry.policy.maxBytes)}
+              {entry.expired > 0 && ` · ${entry.expired} expired`}
+            </p>
+            {entry.entries > 0 && (
+              <p className="text-muted-foreground">
+                Stored {formatDate(entry.oldest)} – {formatDate(entry.newest)},
+                refreshed after {Math.round(entry.policy.ttlMs / (24 * 60 * 60 * 1000))} days
+              </p>
+            )}
+          </div>
+        ))}
+
+        {status?.usage != null && status.quota != null && (
+          <p className="text-muted-foreground">
+            Browser storage: {formatBytes(status.usage)} of {formatBytes(status.quota)} used
+          </p>
+        )}
+
+        <Button variant="outline" size="sm" className="w-full h-7" onClick={() => clear()}>
+          Clear offline cache
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default CacheStatusPopover;
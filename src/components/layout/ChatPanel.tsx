@@ -4,79 +4,145 @@ import { Input } from '@/components/ui/input';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { MessageCircle, Send, Bot, User, Sparkles } from 'lucide-react';
-
-interface Message {
-  id: string;
-  type: 'user' | 'ai';
-  content: string;
-  timestamp: Date;
-  context?: {
-    selectedParcel?: string;
-    mapView?: string;
-    analysis?: string;
-  };
-}
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  MessageCircle,
+  Send,
+  Bot,
+  User,
+  Sparkles,
+  Square,
+  Wrench,
+  History,
+  Plus,
+  Pencil,
+  Download,
+  Trash2,
+  KeyRound
+} from 'lucide-react';
+import { useSiteSelection } from '@/hooks/useSiteSelection';
+import { useMapData } from '@/hooks/useMapData';
+import { useAssistantTools } from '@/hooks/useAssistantTools';
+import { useChat, Message } from '@/hooks/useChat';
+import { useChatSessions } from '@/hooks/useChatSessions';
+import {
+  chatProvider,
+  buildSiteContext,
+  formatSiteContextMessage,
+  summariseSiteContext,
+  CHAT_TOOLS,
+  GENERAL_SITE_KEY,
+  getSessionApiKey,
+  setSessionApiKey
+} from '@/utils/chat';
+import { getBuildingId } from '@/utils/buildings';
+
+const SYSTEM_PROMPT = 'You are the Vienna Building Development Assistant. You help architects and developers ' +
+  'analyse building potential, Vienna zoning (Flächenwidmungs- und Bebauungsplan), the Wiener Bauordnung and ' +
+  'permit processes. Answer concisely and say when you are unsure. Use the map tools to move the map, select ' +
+  'buildings, toggle layers and compute development potential instead of asking the user to do it.';
+
+const createWelcomeMessages = (): Message[] => [
+  {
+    id: '1',
+    type: 'ai',
+    content: 'Hello! I\'m your Vienna Building Development Assistant. I can help you analyze building potential, zoning regulations, and development opportunities. How can I assist you today?',
+    timestamp: new Date(),
+  }
+];
 
 const ChatPanel = () => {
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: '1',
-      type: 'ai',
-      content: 'Hello! I\'m your Vienna Building Development Assistant. I can help you analyze building potential, zoning regulations, and development opportunities. How can I assist you today?',
-      timestamp: new Date(),
-    }
-  ]);
+  const { selectedBuilding, selectedZoning, potential } = useSiteSelection();
+  const { viennaData, mapView } = useMapData();
+  const { executeTool } = useAssistantTools();
+  const siteLabel = selectedBuilding?.properties.ADRESSE || (selectedBuilding ? 'Unnamed building' : null);
+  const { messages, isStreaming, sendMessage, cancel, replaceMessages } = useChat({
+    provider: chatProvider,
+    systemPrompt: SYSTEM_PROMPT,
+    tools: CHAT_TOOLS,
+    executeTool,
+    initialMessages: createWelcomeMessages()
+  });
+  const {
+    sessions,
+    activeSessionId,
+    error: historyError,
+    newSession,
+    openSession,
+    renameSession,
+    deleteSession,
+    downloadSession
+  } = useChatSessions({
+    siteKey: selectedBuilding ? getBuildingId(selectedBuilding) : GENERAL_SITE_KEY,
+    siteLabel,
+    messages,
+    isStreaming,
+    replaceMessages,
+    createInitialMessages: createWelcomeMessages
+  });
   const [inputMessage, setInputMessage] = useState('');
-  const [isTyping, setIsTyping] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [renaming, setRenaming] = useState<{ id: string; title: string } | null>(null);
+  const [hasApiKey, setHasApiKey] = useState(() => !!getSessionApiKey());
+  const [apiKeyDraft, setApiKeyDraft] = useState('');
   const scrollAreaRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
-  const mockResponses = [
-    "Based on the parcel you've selected at Stephansplatz 1, the current building has 8 floors but zoning allows up to 12 floors. However, since this is in a historic district, you'll need special permits for height modifications.",
-    "The selected property is in Kerngebiet A zoning, which typically allows for commercial and mixed-use development. The Floor Area Ratio of 4.5 suggests good development potential.",
-    "I notice you're looking at a property in Vienna's 1st district. This area has strict facade preservation requirements. Any additional floors would likely need to be set back from the street facade.",
-    "The building height restriction of 32m and the current 8 floors suggest each floor is about 4m high. Adding 4 more floors would approach the maximum allowed height.",
-    "For this historic district location, I recommend consulting with Vienna's Urban Planning Department (MA 21) before proceeding with development plans."
-  ];
-
   useEffect(() => {
-    if (scrollAreaRef.current) {
-      scrollAreaRef.current.scrollTop = scrollAreaRef.current.scrollHeight;
+    // The Radix scroll area scrolls its viewport, not the root element
+    const viewport = scrollAreaRef.current?.querySelector<HTMLElement>('[data-radix-scroll-area-viewport]');
+    if (viewport) {
+      viewport.scrollTop = viewport.scrollHeight;
     }
-  }, [messages]);
+  }, [messages, showHistory]);
+
+  const handleOpenSession = async (id: string) => {
+    await openSession(id);
+    setShowHistory(false);
+  };
+
+  const handleNewSession = () => {
+    newSession();
+    setShowHistory(false);
+  };
+
+  const handleRename = async () => {
+    if (!renaming) return;
+    await renameSession(renaming.id, renaming.title);
+    setRenaming(null);
+  };
 
   const handleSendMessage = async () => {
     if (!inputMessage.trim()) return;
 
-    const userMessage: Message = {
-      id: Date.now().toString(),
-      type: 'user',
-      content: inputMessage,
-      timestamp: new Date(),
-    };
-
-    setMessages(prev => [...prev, userMessage]);
+    const content = inputMessage;
     setInputMessage('');
-    setIsTyping(true);
-
-    // Simulate AI response
-    setTimeout(() => {
-      const aiResponse: Message = {
-        id: (Date.now() + 1).toString(),
-        type: 'ai',
-        content: mockResponses[Math.floor(Math.random() * mockResponses.length)],
-        timestamp: new Date(),
-        context: {
-          selectedParcel: 'AT-1010-001-23',
-          mapView: 'Vienna 1st District',
-          analysis: 'Height potential analysis'
-        }
-      };
-      
-      setMessages(prev => [...prev, aiResponse]);
-      setIsTyping(false);
-    }, 1500);
+
+    // Package the current selection and map view with this turn
+    const payload = buildSiteContext({
+      building: selectedBuilding,
+      zoning: selectedZoning,
+      districts: viennaData?.districts.features || [],
+      potential,
+      mapView
+    });
+
+    await sendMessage(content, {
+      summary: summariseSiteContext(payload),
+      messages: [formatSiteContextMessage(payload)]
+    });
+  };
+
+  // The key stays in this tab's session storage and is never shown again
+  const handleSaveApiKey = () => {
+    setSessionApiKey(apiKeyDraft);
+    setHasApiKey(!!apiKeyDraft.trim());
+    setApiKeyDraft('');
+  };
+
+  const handleClearApiKey = () => {
+    setSessionApiKey(undefined);
+    setHasApiKey(false);
   };
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -96,14 +162,72 @@ const ChatPanel = () => {
   return (
     <div className="h-full bg-panel flex flex-col">
       {/* Panel Header */}
-      <div className="p-4 border-b border-panel-border bg-panel-header">
-        <h2 className="font-semibold text-foreground flex items-center gap-2">
-          <MessageCircle className="w-5 h-5" />
-          AI Development Assistant
-        </h2>
-        <p className="text-xs text-muted-foreground mt-1">
-          Context-aware building analysis
-        </p>
+      <div className="p-4 border-b border-panel-border bg-panel-header flex items-start justify-between gap-2">
+        <div>
+          <h2 className="font-semibold text-foreground flex items-center gap-2">
+            <MessageCircle className="w-5 h-5" />
+            AI Development Assistant
+          </h2>
+          <p className="text-xs text-muted-foreground mt-1">
+            Context-aware building analysis
+          </p>
+        </div>
+        <div className="flex gap-1">
+          {chatProvider.apiKey && (
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button
+                  variant={chatProvider.apiKey === 'required' && !hasApiKey ? 'secondary' : 'ghost'}
+                  size="sm"
+                  title="API key"
+                >
+                  <KeyRound className={`w-4 h-4 ${chatProvider.apiKey === 'required' && !hasApiKey ? 'text-amber-700' : ''}`} />
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent align="end" className="w-72 space-y-2 text-xs">
+                <p className="font-medium text-sm">API key</p>
+                <p className="text-muted-foreground">
+                  {hasApiKey
+                    ? 'A key is set for this browser tab.'
+                    : chatProvider.apiKey === 'required'
+                      ? 'The chat backend needs your API key.'
+                      : 'Optional for this chat backend.'}
+                  {' '}It is kept in session storage only and sent straight to the chat backend.
+                </p>
+                <Input
+                  type="password"
+                  autoComplete="off"
+                  placeholder="sk-..."
+                  value={apiKeyDraft}
+                  onChange={e => setApiKeyDraft(e.target.value)}
+                  onKeyDown={e => e.key === 'Enter' && handleSaveApiKey()}
+                  className="h-8 text-xs"
+                />
+                <div className="flex justify-end gap-1">
+                  {hasApiKey && (
+                    <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={handleClearApiKey}>
+                      Forget key
+                    </Button>
+                  )}
+                  <Button size="sm" className="h-7 text-xs" onClick={handleSaveApiKey} disabled={!apiKeyDraft.trim()}>
+                    Save
+                  </Button>
+                </div>
+              </PopoverContent>
+            </Popover>
+          )}
+          <Button variant="ghost" size="sm" onClick={handleNewSession} title="New conversation">
+            <Plus className="w-4 h-4" />
+          </Button>
+          <Button
+            variant={showHistory ? 'secondary' : 'ghost'}
+            size="sm"
+            onClick={() => setShowHistory(!showHistory)}
+            title="Conversation history"
+          >
+            <History className="w-4 h-4" />
+          </Button>
+        </div>
       </div>
 
       {/* Context Indicators */}
@@ -114,16 +238,105 @@ const ChatPanel = () => {
             Map Context Active
           </Badge>
           <Badge variant="outline" className="text-xs">
-            Site: AT-1010-001-23
+            Site: {siteLabel || 'none selected'}
           </Badge>
+          {selectedBuilding?.properties.STOCKWERKE !== undefined && (
+            <Badge variant="outline" className="text-xs">
+              {selectedBuilding.properties.STOCKWERKE} floors
+            </Badge>
+          )}
+          {selectedZoning?.properties.WIDMUNG && (
+            <Badge variant="outline" className="text-xs">
+              {selectedZoning.properties.WIDMUNG}
+              {selectedZoning.properties.BAUKLASSE && ` · BK ${selectedZoning.properties.BAUKLASSE}`}
+            </Badge>
+          )}
         </div>
       </div>
 
+      {/* Conversation History */}
+      {showHistory && (
+        <div className="flex-1 overflow-hidden">
+          <ScrollArea className="h-full">
+            <div className="p-4 space-y-2">
+              {historyError && (
+                <p className="text-xs text-destructive">{historyError}</p>
+              )}
+              {sessions.length === 0 && (
+                <p className="text-sm text-muted-foreground">No saved conversations yet.</p>
+              )}
+              {sessions.map(session => (
+                <Card
+                  key={session.id}
+                  className={`p-3 ${session.id === activeSessionId ? 'border-primary' : ''}`}
+                >
+                  {renaming?.id === session.id ? (
+                    <Input
+                      autoFocus
+                      value={renaming.title}
+                      onChange={(e) => setRenaming({ id: session.id, title: e.target.value })}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') handleRename();
+                        if (e.key === 'Escape') setRenaming(null);
+                      }}
+                      onBlur={handleRename}
+                      className="h-8 text-sm"
+                    />
+                  ) : (
+                    <button
+                      type="button"
+                      className="w-full text-left"
+                      onClick={() => handleOpenSession(session.id)}
+                    >
+                      <p className="text-sm font-medium truncate">{session.title}</p>
+                    </button>
+                  )}
+                  <div className="flex items-center justify-between gap-2 mt-1">
+                    <p className="text-xs text-muted-foreground truncate">
+                      {session.siteLabel || 'No site'} · {session.updatedAt.toLocaleString()} · {session.messageCount} messages
+                    </p>
+                    <div className="flex flex-shrink-0">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0"
+                        onClick={() => setRenaming({ id: session.id, title: session.title })}
+                        title="Rename"
+                      >
+                        <Pencil className="w-3 h-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0"
+                        onClick={() => downloadSession(session.id)}
+                        title="Export as JSON"
+                      >
+                        <Download className="w-3 h-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0"
+                        onClick={() => deleteSession(session.id)}
+                        title="Delete"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </Button>
+                    </div>
+                  </div>
+                </Card>
+              ))}
+            </div>
+          </ScrollArea>
+        </div>
+      )}
+
       {/* Messages */}
-      <div className="flex-1 overflow-hidden">
+      <div className={`flex-1 overflow-hidden ${showHistory ? 'hidden' : ''}`}>
         <ScrollArea className="h-full" ref={scrollAreaRef}>
           <div className="p-4 space-y-4">
-            {messages.map((message) => (
+            {messages.filter(message => message.content || message.status !== 'streaming').map((message) => (
               <div
                 key={message.id}
                 className={`flex ${message.type === 'user' ? 'justify-end' : 'justify-start'}`}
@@ -147,16 +360,49 @@ const ChatPanel = () => {
                     <Card className={`p-3 ${
                       message.type === 'user' 
                         ? 'bg-primary text-white' 
-                        : 'bg-white border'
+                        : message.status === 'error'
+                          ? 'bg-destructive/10 border-destructive'
+                          : 'bg-white border'
                     }`}>
-                      <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                      {message.content && (
+                        <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                      )}
+                      {message.status === 'error' && (
+                        <p className="text-sm text-destructive">{message.error}</p>
+                      )}
+                      {message.status === 'cancelled' && (
+                        <p className="text-xs text-muted-foreground italic">Response stopped</p>
+                      )}
                     </Card>
                     
+                    {message.toolCalls && message.toolCalls.length > 0 && (
+                      <div className="flex gap-1 flex-wrap">
+                        {message.toolCalls.map(activity => (
+                          <Badge
+                            key={activity.id}
+                            variant={activity.status === 'error' ? 'destructive' : 'outline'}
+                            className="text-xs gap-1"
+                            title={activity.error || activity.arguments}
+                          >
+                            <Wrench className={`w-3 h-3 ${activity.status === 'running' ? 'animate-pulse' : ''}`} />
+                            {activity.name}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+
                     {message.context && (
                       <div className="flex gap-1 flex-wrap">
-                        <Badge variant="outline" className="text-xs">
-                          {message.context.selectedParcel}
-                        </Badge>
+                        {message.context.selectedParcel && (
+                          <Badge variant="outline" className="text-xs">
+                            {message.context.selectedParcel}
+                          </Badge>
+                        )}
+                        {message.context.mapView && (
+                          <Badge variant="outline" className="text-xs">
+                            {message.context.mapView}
+                          </Badge>
+                        )}
                         {message.context.analysis && (
                           <Badge variant="secondary" className="text-xs">
                             {message.context.analysis}
@@ -173,8 +419,8 @@ const ChatPanel = () => {
               </div>
             ))}
 
-            {/* Typing Indicator */}
-            {isTyping && (
+            {/* Typing Indicator (until the first streamed token arrives) */}
+            {messages.some(message => message.status === 'streaming' && !message.content) && (
               <div className="flex justify-start">
                 <div className="flex gap-3 max-w-[85%]">
                   <div className="w-8 h-8 rounded-full bg-gradient-to-br from-purple-500 to-blue-500 text-white flex items-center justify-center flex-shrink-0">
@@ -195,7 +441,7 @@ const ChatPanel = () => {
       </div>
 
       {/* Suggested Questions */}
-      {messages.length === 1 && (
+      {!showHistory && messages.length === 1 && (
         <div className="p-3 border-b border-panel-border bg-panel-header/30">
           <p className="text-xs text-muted-foreground mb-2">Suggested questions:</p>
           <div className="space-y-1">
@@ -224,15 +470,21 @@ const ChatPanel = () => {
             onChange={(e) => setInputMessage(e.target.value)}
             onKeyPress={handleKeyPress}
             className="flex-1"
-            disabled={isTyping}
+            disabled={isStreaming}
           />
-          <Button 
-            onClick={handleSendMessage} 
-            disabled={!inputMessage.trim() || isTyping}
-            size="sm"
-          >
-            <Send className="w-4 h-4" />
-          </Button>
+          {isStreaming ? (
+            <Button onClick={cancel} size="sm" variant="outline" title="Stop response">
+              <Square className="w-4 h-4" />
+            </Button>
+          ) : (
+            <Button 
+              onClick={handleSendMessage} 
+              disabled={!inputMessage.trim()}
+              size="sm"
+            >
+              <Send className="w-4 h-4" />
+            </Button>
+          )}
         </div>
         <p className="text-xs text-muted-foreground mt-2">
           AI assistant with access to Vienna building codes and current map selection
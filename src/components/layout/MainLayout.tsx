@@ -3,6 +3,9 @@ import { Panel, PanelGroup, PanelResizeHandle } from 'react-resizable-panels';
 import SiteInfoPanel from './SiteInfoPanel';
 import MapPanel from './MapPanel';
 import ChatPanel from './ChatPanel';
+import { MapDataProvider } from '@/contexts/MapDataContext';
+import { SiteSelectionProvider } from '@/contexts/SiteSelectionContext';
+import { AssistantToolsProvider } from '@/contexts/AssistantToolsContext';
 
 const MainLayout = () => {
   return (
@@ -22,26 +25,32 @@ const MainLayout = () => {
 
       {/* Main Content */}
       <div className="h-[calc(100vh-4rem)]">
-        <PanelGroup direction="horizontal">
-          {/* Left Panel - Site Information */}
-          <Panel defaultSize={25} minSize={20} maxSize={35}>
-            <SiteInfoPanel />
-          </Panel>
+        <MapDataProvider>
+          <SiteSelectionProvider>
+            <AssistantToolsProvider>
+              <PanelGroup direction="horizontal">
+                {/* Left Panel - Site Information */}
+                <Panel defaultSize={25} minSize={20} maxSize={35}>
+                  <SiteInfoPanel />
+                </Panel>
           
-          <PanelResizeHandle className="w-2 bg-panel-border hover:bg-primary/20 transition-colors" />
+                <PanelResizeHandle className="w-2 bg-panel-border hover:bg-primary/20 transition-colors" />
           
-          {/* Center Panel - Map */}
-          <Panel defaultSize={50} minSize={30}>
-            <MapPanel />
-          </Panel>
+                {/* Center Panel - Map */}
+                <Panel defaultSize={50} minSize={30}>
+                  <MapPanel />
+                </Panel>
           
-          <PanelResizeHandle className="w-2 bg-panel-border hover:bg-primary/20 transition-colors" />
+                <PanelResizeHandle className="w-2 bg-panel-border hover:bg-primary/20 transition-colors" />
           
-          {/* Right Panel - Chat */}
-          <Panel defaultSize={25} minSize={20} maxSize={35}>
-            <ChatPanel />
-          </Panel>
-        </PanelGroup>
+                {/* Right Panel - Chat */}
+                <Panel defaultSize={25} minSize={20} maxSize={35}>
+                  <ChatPanel />
+                </Panel>
+              </PanelGroup>
+            </AssistantToolsProvider>
+          </SiteSelectionProvider>
+        </MapDataProvider>
       </div>
     </div>
   );
@@ -1,30 +1,319 @@
-import React, { useEffect, useRef, useState, useCallback } from 'react';
+import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
 import mapboxgl from 'mapbox-gl';
+import type { ExpressionSpecification } from 'mapbox-gl';
 import 'mapbox-gl/dist/mapbox-gl.css';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
-import { Map, Layers, Eye, EyeOff, Settings, Loader2, RefreshCw } from 'lucide-react';
-import { useViennaMapData } from '@/hooks/useViennaMapData';
-import { useViewportBuildings } from '@/hooks/useViewportBuildings';
-import { MapBounds } from '@/utils/mapBounds';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Map, Layers, Eye, EyeOff, Settings, Loader2, RefreshCw, SlidersHorizontal, Box, Sun, History } from 'lucide-react';
+import { useMapData } from '@/hooks/useMapData';
+import { useSiteSelection } from '@/hooks/useSiteSelection';
+import { useAssistantTools } from '@/hooks/useAssistantTools';
+import { MapBounds, MIN_BUILDING_ZOOM } from '@/utils/mapBounds';
+import { findFeatureAtPoint, geometryCentroid } from '@/utils/geometry';
+import { findBuildingById, getBuildingId } from '@/utils/buildings';
+import { createDefaultGeocoder } from '@/utils/geocoding';
+import { MapLayerName } from '@/utils/chat';
+import { ViennaBuilding, FeatureClass, FeatureCollection, HeightSource, MapFeature } from '@/types/vienna';
+import { BAUKLASSE_RULES, BauklasseCode, getFloorLimits } from '@/utils/bauklasse';
+import { DEFAULT_STOREY_HEIGHT } from '@/utils/developmentPotential';
+import { hasWarnings } from '@/utils/geometryValidation';
+import { FEATURE_CLASS_PRESETS } from '@/utils/overpassQuery';
+import { ESTIMATED_LEVELS, HEIGHT_SOURCE_LABELS } from '@/utils/buildingHeight';
+import { getFeaturePopupHtml } from '@/utils/featurePopups';
+import { GhostStorey, createGhostMassing } from '@/utils/ghostMassing';
+import { estimateSolarPotential } from '@/utils/solarPotential';
+import { ShadowImage } from '@/utils/shadowImage';
+import { BuildingLoadProgress, BuildingRetryState } from '@/hooks/useViewportBuildings';
+import { useShadowStudy } from '@/hooks/useShadowStudy';
+import CacheStatusPopover from './CacheStatusPopover';
+import ShadowStudyPanel from './ShadowStudyPanel';
+
+// Building classes shown in the legend, lowest to highest
+const LEGEND_BAUKLASSEN: BauklasseCode[] = ['I', 'II', 'III', 'IV', 'V', 'VI'];
+
+// "Selected Parcel" style, matching the legend swatch (primary colour)
+const SELECTED_COLOR = '#0080ff';
+const HIGHLIGHT_COLOR = '#f59e0b';
+// Permitted but unbuilt volume, matching the green of the potential badges
+const GHOST_COLOR = '#22c55e';
+// Vertical gap between ghost storeys, so each possible storey reads as a slab
+const GHOST_STOREY_GAP = 0.3;
+
+// Give up waiting for a fly-to animation after this long
+const FLY_TO_TIMEOUT_MS = 5000;
+
+// Camera pitch of the 3D view
+const PITCH_3D = 60;
+
+// 3D buildings are coloured by how reliable their height is
+const HEIGHT_SOURCE_COLORS: Record<HeightSource, string> = {
+  tagged: '#1d4ed8',
+  levels: '#60a5fa',
+  estimated: '#9ca3af'
+};
+
+// Non-OSM buildings have no HOEHE, so fall back to their storeys
+const HEIGHT_EXPRESSION: ExpressionSpecification = [
+  'coalesce',
+  ['get', 'HOEHE'],
+  ['*', ['coalesce', ['get', 'STOCKWERKE'], ESTIMATED_LEVELS], DEFAULT_STOREY_HEIGHT]
+];
+const MIN_HEIGHT_EXPRESSION: ExpressionSpecification = ['coalesce', ['get', 'MIN_HOEHE'], 0];
+const HEIGHT_SOURCE_COLOR_EXPRESSION: ExpressionSpecification = [
+  'match',
+  ['coalesce', ['get', 'HOEHE_QUELLE'], ['case', ['has', 'STOCKWERKE'], 'levels', 'estimated']],
+  'tagged', HEIGHT_SOURCE_COLORS.tagged,
+  'levels', HEIGHT_SOURCE_COLORS.levels,
+  HEIGHT_SOURCE_COLORS.estimated
+];
+
+// Construction periods commonly used for Vienna's building stock, by first year
+const CONSTRUCTION_PERIODS: { from: number; label: string; color: string }[] = [
+  { from: 0, label: 'before 1848', color: '#7f1d1d' },
+  { from: 1848, label: '1848–1918', color: '#c2410c' },
+  { from: 1919, label: '1919–1944', color: '#eab308' },
+  { from: 1945, label: '1945–1980', color: '#16a34a' },
+  { from: 1981, label: '1981–2000', color: '#0891b2' },
+  { from: 2001, label: 'since 2001', color: '#6366f1' }
+];
+const UNKNOWN_PERIOD_COLOR = '#d1d5db';
+const PERIOD_COLOR_EXPRESSION: ExpressionSpecification = [
+  'case',
+  ['has', 'BAUJAHR'],
+  [
+    'step', ['get', 'BAUJAHR'],
+    CONSTRUCTION_PERIODS[0].color,
+    ...CONSTRUCTION_PERIODS.slice(1).flatMap(({ from, color }) => [from, color])
+  ],
+  UNKNOWN_PERIOD_COLOR
+];
+
+// Flat and extruded building colours, highlighting hover and selection
+const buildingColors = (byPeriod: boolean): { fill: ExpressionSpecification; extrusion: ExpressionSpecification } => {
+  const withState = (base: string | ExpressionSpecification): ExpressionSpecification => [
+    'case',
+    ['boolean', ['feature-state', 'selected'], false], SELECTED_COLOR,
+    ['boolean', ['feature-state', 'hover'], false], '#2f7bd6',
+    base
+  ];
+  return {
+    fill: withState(byPeriod ? PERIOD_COLOR_EXPRESSION : '#4a90e2'),
+    extrusion: withState(byPeriod ? PERIOD_COLOR_EXPRESSION : HEIGHT_SOURCE_COLOR_EXPRESSION)
+  };
+};
+
+const EMPTY_COLLECTION: FeatureCollection<ViennaBuilding> = { type: 'FeatureCollection', features: [] };
+const EMPTY_GHOST: FeatureCollection<GhostStorey> = { type: 'FeatureCollection', features: [] };
+
+// Buildings coloured by annual rooftop solar yield (kWh)
+const SOLAR_CLASSES: { kwh: number; color: string }[] = [
+  { kwh: 0, color: '#e5e7eb' },
+  { kwh: 10000, color: '#fde68a' },
+  { kwh: 30000, color: '#f59e0b' },
+  { kwh: 100000, color: '#b45309' }
+];
+const SOLAR_COLOR: ExpressionSpecification = [
+  'interpolate', ['linear'], ['get', 'SOLAR_KWH'],
+  ...SOLAR_CLASSES.flatMap(({ kwh, color }) => [kwh, color])
+];
+
+// Facades coloured by hours of direct sun, from none to plenty
+const FACADE_SUN_COLOR: ExpressionSpecification = [
+  'interpolate', ['linear'], ['get', 'HOURS'],
+  0, '#7c3aed',
+  2, '#f97316',
+  5, '#facc15'
+];
+
+// Sources and styles of the feature classes besides buildings, which use
+// `viewport-buildings`. Land use and POI areas go below the buildings.
+const FEATURE_CLASS_LAYERS: {
+  featureClass: Exclude<FeatureClass, 'building'>;
+  source: string;
+  color: string;
+  opacity: number;
+  belowBuildings: boolean;
+  extruded?: boolean; // shown as fill-extrusion in 3D
+}[] = [
+  { featureClass: 'landuse', source: 'osm-landuse', color: '#84a98c', opacity: 0.25, belowBuildings: true },
+  { featureClass: 'poi', source: 'osm-pois', color: '#a855f7', opacity: 0.3, belowBuildings: true },
+  { featureClass: 'buildingPart', source: 'osm-building-parts', color: '#1e40af', opacity: 0.4, belowBuildings: false, extruded: true }
+];
+
+// Layers that can be clicked for a popup, per feature class
+const FEATURE_CLASS_CLICK_LAYERS = FEATURE_CLASS_LAYERS.flatMap(({ source, extruded }) =>
+  extruded ? [`${source}-fill`, `${source}-extrusion`] : [`${source}-fill`]
+);
+const OSM_CLICK_LAYERS = ['viewport-buildings-fill', 'viewport-buildings-extrusion', ...FEATURE_CLASS_CLICK_LAYERS];
+
+// Show flat or extruded buildings and parts
+const applyBuildingLayerVisibility = (target: mapboxgl.Map, buildingsVisible: boolean, show3d: boolean) => {
+  const set = (layerId: string, visible: boolean) => {
+    if (target.getLayer(layerId)) target.setLayoutProperty(layerId, 'visibility', visible ? 'visible' : 'none');
+  };
+
+  set('viewport-buildings-fill', buildingsVisible && !show3d);
+  set('viewport-buildings-line', buildingsVisible && !show3d);
+  set('viewport-buildings-extrusion', buildingsVisible && show3d);
+  FEATURE_CLASS_LAYERS.filter(({ extruded }) => extruded).forEach(({ source }) => {
+    set(`${source}-fill`, !show3d);
+    set(`${source}-line`, !show3d);
+    set(`${source}-extrusion`, show3d);
+  });
+  set('ghost-massing-extrusion', show3d);
+};
+
+// Show the shadow study raster, replacing its image or removing it. Image
+// sources need an image up front, so the source only exists while shown.
+const syncShadowImage = (target: mapboxgl.Map, image: ShadowImage | null) => {
+  const source = target.getSource('shadow-study') as mapboxgl.ImageSource | undefined;
+
+  if (!image) {
+    if (target.getLayer('shadow-study-raster')) target.removeLayer('shadow-study-raster');
+    if (source) target.removeSource('shadow-study');
+    return;
+  }
+
+  if (source) {
+    source.updateImage({ url: image.url, coordinates: image.coordinates });
+    return;
+  }
+
+  target.addSource('shadow-study', { type: 'image', url: image.url, coordinates: image.coordinates });
+  target.addLayer({
+    id: 'shadow-study-raster',
+    type: 'raster',
+    source: 'shadow-study',
+    paint: {
+      'raster-opacity': 0.45,
+      'raster-fade-duration': 0
+    }
+  }, 'viewport-buildings-fill');
+};
+
+const formatLoadProgress = ({ stage, loaded, total }: BuildingLoadProgress): string =>
+  stage === 'downloading'
+    ? `downloading ${(loaded / (1024 * 1024)).toFixed(1)} MB`
+    : `processing ${loaded.toLocaleString('de-AT')} / ${(total ?? 0).toLocaleString('de-AT')} elements`;
+
+// Seconds until an Overpass retry, ticking down once a second
+const RetryCountdown = ({ retry }: { retry: BuildingRetryState }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [retry]);
+
+  const seconds = Math.max(0, Math.ceil((retry.retryAt - now) / 1000));
+  return (
+    <span className="text-amber-700">
+      Overpass busy ({retry.reason}), retrying in {seconds}s (attempt {retry.attempt})
+    </span>
+  );
+};
 
 const MapPanel = () => {
   const mapContainer = useRef<HTMLDivElement>(null);
   const map = useRef<mapboxgl.Map | null>(null);
   const [mapboxToken, setMapboxToken] = useState('pk.eyJ1IjoidG1icjI1MiIsImEiOiJjbWQ1MndiczgwbG0wMmlvaGs2ZGFiNTZmIn0.W4JAwcLbgw00ExuIAr9s7Q');
   const [showTokenInput, setShowTokenInput] = useState(false);
-  const [layersVisible, setLayersVisible] = useState({
+  const [layersVisible, setLayersVisible] = useState<Record<MapLayerName, boolean>>({
     parcels: true,
     zoning: true,
     buildings: true,
-    restrictions: false
+    restrictions: false,
+    solar: false
   });
+  const [highlightedBuildings, setHighlightedBuildings] = useState<FeatureCollection<ViennaBuilding>>(EMPTY_COLLECTION);
+  const [show3d, setShow3d] = useState(false);
+  const [colorByPeriod, setColorByPeriod] = useState(false);
+
+  // Districts/zoning and viewport-based buildings are shared with the other panels
+  const { viennaData, viennaLoading: districtLoading, viennaError: districtError, zoning, loadZoning, loadBuildingAges, viewport, setMapView } = useMapData();
+  const { buildings: viewportBuildings, visibleFeatures, featureClasses, setFeatureClassEnabled, loading: buildingLoading, pendingRequests, retry: buildingRetry, progress: buildingProgress, error: buildingError, loadBuildings, clearCache, cacheInfo, diagnostics } = viewport;
+  const droppedCount = diagnostics.filter(entry => entry.dropped).length;
+  const { selectedBuilding, selectBuilding, potential, focusRequest, focusOn } = useSiteSelection();
+  const { registerTool } = useAssistantTools();
+
+  // Permitted envelope above the selected building, shown in 3D
+  const ghostMassing = useMemo(() => selectedBuilding && potential
+    ? createGhostMassing(selectedBuilding, potential)
+    : EMPTY_GHOST,
+  [selectedBuilding, potential]);
+
+  // Rooftop solar yield of the buildings in view, only while the layer is shown
+  const solarPotential = useMemo(() => ({
+    type: 'FeatureCollection' as const,
+    features: layersVisible.solar
+      ? visibleFeatures.building.features.map(building => ({
+          type: 'Feature' as const,
+          id: building.id,
+          properties: { SOLAR_KWH: estimateSolarPotential(building).annualYield.value ?? 0 },
+          geometry: building.geometry
+        }))
+      : []
+  }), [layersVisible.solar, visibleFeatures.building]);
 
-  // Use separate hooks for districts/zoning vs viewport-based buildings
-  const { data: viennaData, loading: districtLoading, error: districtError } = useViennaMapData();
-  const { buildings: viewportBuildings, loading: buildingLoading, loadBuildings, clearCache, cacheInfo } = useViewportBuildings();
+  const shadowStudy = useShadowStudy({ site: selectedBuilding, buildings: viewportBuildings.features, potential });
+  const facadeSun = useMemo(() => ({
+    type: 'FeatureCollection' as const,
+    features: shadowStudy.facades.map(facade => ({
+      type: 'Feature' as const,
+      id: facade.id,
+      properties: { HOURS: facade.hoursWithExtension ?? facade.hours },
+      geometry: { type: 'LineString' as const, coordinates: facade.coordinates }
+    }))
+  }), [shadowStudy.facades]);
+
+  // Map event handlers are bound once per map instance, so read live values through refs
+  const buildingsRef = useRef(viewportBuildings);
+  const selectedBuildingRef = useRef(selectedBuilding);
+  const selectBuildingRef = useRef(selectBuilding);
+  const layersVisibleRef = useRef(layersVisible);
+  const highlightedBuildingsRef = useRef(highlightedBuildings);
+  const show3dRef = useRef(show3d);
+  const colorByPeriodRef = useRef(colorByPeriod);
+  const ghostMassingRef = useRef(ghostMassing);
+  const shadowImageRef = useRef(shadowStudy.shadowImage);
+  const facadeSunRef = useRef(facadeSun);
+  const solarPotentialRef = useRef(solarPotential);
+  buildingsRef.current = viewportBuildings;
+  selectedBuildingRef.current = selectedBuilding;
+  selectBuildingRef.current = selectBuilding;
+  layersVisibleRef.current = layersVisible;
+  highlightedBuildingsRef.current = highlightedBuildings;
+  show3dRef.current = show3d;
+  colorByPeriodRef.current = colorByPeriod;
+  ghostMassingRef.current = ghostMassing;
+  shadowImageRef.current = shadowStudy.shadowImage;
+  facadeSunRef.current = facadeSun;
+  solarPotentialRef.current = solarPotential;
+
+  // Point to select once buildings around a searched address have loaded
+  const pendingSelectionRef = useRef<[number, number] | null>(null);
+  const hoveredIdRef = useRef<string | null>(null);
+  const selectedIdRef = useRef<string | null>(null);
+
+  // Move a boolean feature-state flag (hover/selected) from one building to another
+  const moveFeatureState = useCallback((flag: 'hover' | 'selected', ref: React.MutableRefObject<string | null>, id: string | null) => {
+    if (!map.current || !map.current.getSource('viewport-buildings') || ref.current === id) return;
+
+    if (ref.current !== null) {
+      map.current.setFeatureState({ source: 'viewport-buildings', id: ref.current }, { [flag]: false });
+    }
+    if (id !== null) {
+      map.current.setFeatureState({ source: 'viewport-buildings', id }, { [flag]: true });
+    }
+    ref.current = id;
+  }, []);
+
+  const setHoverState = useCallback((id: string | null) => moveFeatureState('hover', hoveredIdRef, id), [moveFeatureState]);
+  const setSelectedState = useCallback((id: string | null) => moveFeatureState('selected', selectedIdRef, id), [moveFeatureState]);
 
   // Load initial viewport buildings when map loads
   const loadViewportBuildings = useCallback(() => {
@@ -38,8 +327,15 @@ const MapPanel = () => {
       west: bounds.getWest()
     };
     
-    loadBuildings(mapBounds);
-  }, [loadBuildings]);
+    const center = map.current.getCenter();
+    const zoom = map.current.getZoom();
+    setMapView({ center: [center.lng, center.lat], zoom, bounds: mapBounds });
+
+    if (zoom >= MIN_BUILDING_ZOOM) loadBuildings(mapBounds);
+    loadZoning(mapBounds);
+    // Construction periods are only needed to colour buildings by them
+    if (colorByPeriodRef.current) loadBuildingAges(mapBounds);
+  }, [loadBuildings, loadZoning, loadBuildingAges, setMapView]);
 
   useEffect(() => {
     if (!mapContainer.current || !mapboxToken || !viennaData) return;
@@ -54,7 +350,7 @@ const MapPanel = () => {
       style: 'mapbox://styles/mapbox/light-v11',
       center: [16.373755, 48.208492], // Stephansdom coordinates (exact)
       zoom: 17,
-      pitch: 0,
+      pitch: show3dRef.current ? PITCH_3D : 0,
     });
 
     // Add navigation controls
@@ -86,16 +382,18 @@ const MapPanel = () => {
         data: viennaData.districts
       });
 
-      // Add zoning data source (empty for now, but keep structure)
+      // Add zoning data source (updated as the zoning plan loads by viewport)
       map.current.addSource('vienna-zoning', {
         type: 'geojson',
-        data: viennaData.zoning
+        data: zoning
       });
 
-      // Add viewport-based buildings source (will be updated dynamically)
+      // Add viewport-based buildings source (will be updated dynamically).
+      // Ids are promoted from OSM_ID so hover and selection use feature-state.
       map.current.addSource('viewport-buildings', {
         type: 'geojson',
-        data: viewportBuildings
+        data: visibleFeatures.building,
+        promoteId: 'OSM_ID'
       });
 
       // Style viewport buildings layer
@@ -104,11 +402,16 @@ const MapPanel = () => {
         type: 'fill',
         source: 'viewport-buildings',
         paint: {
-          'fill-color': '#4a90e2',
-          'fill-opacity': 0.6
+          'fill-color': buildingColors(colorByPeriodRef.current).fill,
+          'fill-opacity': [
+            'case',
+            ['boolean', ['feature-state', 'selected'], false], 0.8,
+            ['boolean', ['feature-state', 'hover'], false], 0.75,
+            0.6
+          ]
         },
         layout: {
-          'visibility': layersVisible.buildings ? 'visible' : 'none'
+          'visibility': layersVisibleRef.current.buildings ? 'visible' : 'none'
         }
       });
 
@@ -117,11 +420,137 @@ const MapPanel = () => {
         type: 'line',
         source: 'viewport-buildings',
         paint: {
-          'line-color': '#2171b5',
-          'line-width': 1
+          'line-color': [
+            'case',
+            ['boolean', ['feature-state', 'selected'], false], SELECTED_COLOR,
+            '#2171b5'
+          ],
+          'line-width': [
+            'case',
+            ['boolean', ['feature-state', 'selected'], false], 3,
+            1
+          ]
         },
         layout: {
-          'visibility': layersVisible.buildings ? 'visible' : 'none'
+          'visibility': layersVisibleRef.current.buildings ? 'visible' : 'none'
+        }
+      });
+
+      // Rooftop solar choropleth over the flat buildings
+      map.current.addSource('solar-potential', {
+        type: 'geojson',
+        data: solarPotentialRef.current
+      });
+
+      map.current.addLayer({
+        id: 'solar-potential-fill',
+        type: 'fill',
+        source: 'solar-potential',
+        paint: {
+          'fill-color': SOLAR_COLOR,
+          'fill-opacity': 0.85
+        },
+        layout: {
+          'visibility': layersVisibleRef.current.solar ? 'visible' : 'none'
+        }
+      });
+
+      // Extruded buildings for the 3D view, coloured by the reliability of their height
+      // unless coloured by construction period
+      map.current.addLayer({
+        id: 'viewport-buildings-extrusion',
+        type: 'fill-extrusion',
+        source: 'viewport-buildings',
+        paint: {
+          'fill-extrusion-color': buildingColors(colorByPeriodRef.current).extrusion,
+          'fill-extrusion-height': HEIGHT_EXPRESSION,
+          'fill-extrusion-base': MIN_HEIGHT_EXPRESSION,
+          'fill-extrusion-opacity': 0.85
+        },
+        layout: {
+          'visibility': 'none'
+        }
+      });
+
+      // Other OSM feature classes, each with its own source
+      FEATURE_CLASS_LAYERS.forEach(({ featureClass, source, color, opacity, belowBuildings, extruded }) => {
+        if (!map.current) return;
+        const beforeId = belowBuildings ? 'viewport-buildings-fill' : undefined;
+
+        map.current.addSource(source, {
+          type: 'geojson',
+          data: visibleFeatures[featureClass]
+        });
+        map.current.addLayer({
+          id: `${source}-fill`,
+          type: 'fill',
+          source,
+          paint: { 'fill-color': color, 'fill-opacity': opacity }
+        }, beforeId);
+        map.current.addLayer({
+          id: `${source}-line`,
+          type: 'line',
+          source,
+          paint: { 'line-color': color, 'line-width': 1 }
+        }, beforeId);
+
+        if (extruded) {
+          map.current.addLayer({
+            id: `${source}-extrusion`,
+            type: 'fill-extrusion',
+            source,
+            paint: {
+              'fill-extrusion-color': HEIGHT_SOURCE_COLOR_EXPRESSION,
+              'fill-extrusion-height': HEIGHT_EXPRESSION,
+              'fill-extrusion-base': MIN_HEIGHT_EXPRESSION,
+              'fill-extrusion-opacity': 0.85
+            },
+            layout: {
+              'visibility': 'none'
+            }
+          }, beforeId);
+        }
+      });
+
+      // Ghost massing of the selected building's permitted envelope
+      map.current.addSource('ghost-massing', {
+        type: 'geojson',
+        data: ghostMassingRef.current
+      });
+
+      map.current.addLayer({
+        id: 'ghost-massing-extrusion',
+        type: 'fill-extrusion',
+        source: 'ghost-massing',
+        paint: {
+          'fill-extrusion-color': GHOST_COLOR,
+          'fill-extrusion-base': ['+', ['get', 'BASIS'], GHOST_STOREY_GAP],
+          'fill-extrusion-height': ['get', 'HOEHE'],
+          'fill-extrusion-opacity': 0.35
+        },
+        layout: {
+          'visibility': 'none'
+        }
+      });
+      applyBuildingLayerVisibility(map.current, layersVisibleRef.current.buildings, show3dRef.current);
+
+      // Sun and shadow study: shadows below the buildings, facades by hours of sun
+      syncShadowImage(map.current, shadowImageRef.current);
+      map.current.addSource('facade-sun', {
+        type: 'geojson',
+        data: facadeSunRef.current
+      });
+
+      map.current.addLayer({
+        id: 'facade-sun-line',
+        type: 'line',
+        source: 'facade-sun',
+        paint: {
+          'line-color': FACADE_SUN_COLOR,
+          'line-width': 4
+        },
+        layout: {
+          'line-cap': 'round'
         }
       });
 
@@ -135,13 +564,15 @@ const MapPanel = () => {
             'case',
             ['==', ['get', 'WIDMUNG'], 'Wohngebiet'], '#90EE90',
             ['==', ['get', 'WIDMUNG'], 'Kerngebiet'], '#FFB347',
+            ['==', ['get', 'WIDMUNG'], 'Gemischtes Baugebiet'], '#FFD27F',
+            ['==', ['get', 'WIDMUNG'], 'Geschäftsviertel'], '#FFB347',
             ['==', ['get', 'WIDMUNG'], 'Industriegebiet'], '#FF6B6B',
             '#CCCCCC'
           ],
           'fill-opacity': 0.4
         },
         layout: {
-          'visibility': layersVisible.zoning ? 'visible' : 'none'
+          'visibility': layersVisibleRef.current.zoning ? 'visible' : 'none'
         }
       });
 
@@ -160,28 +591,61 @@ const MapPanel = () => {
         }
       });
 
-      // Add click handlers for viewport buildings
-      map.current.on('click', 'viewport-buildings-fill', (e) => {
-        if (!e.features || e.features.length === 0) return;
-        
-        const feature = e.features[0];
-        const properties = feature.properties;
-        
+      // Buildings highlighted by the assistant (listBuildingsInView)
+      map.current.addSource('highlighted-buildings', {
+        type: 'geojson',
+        data: highlightedBuildingsRef.current
+      });
+
+      map.current.addLayer({
+        id: 'highlighted-buildings-fill',
+        type: 'fill',
+        source: 'highlighted-buildings',
+        paint: {
+          'fill-color': HIGHLIGHT_COLOR,
+          'fill-opacity': 0.5
+        }
+      });
+
+      // Feature-state belongs to the source, so start from scratch on a new map
+      hoveredIdRef.current = null;
+      selectedIdRef.current = null;
+      setSelectedState(selectedBuildingRef.current?.id ?? null);
+
+      // Only the topmost of overlapping OSM features gets a popup
+      const isTopmost = (e: mapboxgl.MapMouseEvent, layerId: string): boolean => {
+        const [top] = map.current!.queryRenderedFeatures(e.point, { layers: OSM_CLICK_LAYERS });
+        return top?.layer?.id === layerId;
+      };
+
+      const showFeaturePopup = (e: mapboxgl.MapMouseEvent) => {
+        const properties = e.features?.[0]?.properties as MapFeature['properties'] | undefined;
+        if (!properties) return;
+
         new mapboxgl.Popup()
           .setLngLat(e.lngLat)
-          .setHTML(`
-            <div class="p-3">
-              <h3 class="font-semibold mb-2">Building Information</h3>
-              <div class="space-y-1 text-sm">
-                ${properties?.ADRESSE ? `<div><strong>Address:</strong> ${properties.ADRESSE}</div>` : ''}
-                ${properties?.BAUWEISE ? `<div><strong>Construction:</strong> ${properties.BAUWEISE}</div>` : ''}
-                ${properties?.STOCKWERKE ? `<div><strong>Floors:</strong> ${properties.STOCKWERKE}</div>` : ''}
-                ${properties?.BAUJAHR ? `<div><strong>Built:</strong> ${properties.BAUJAHR}</div>` : ''}
-                ${properties?.NAME ? `<div><strong>Name:</strong> ${properties.NAME}</div>` : ''}
-              </div>
-            </div>
-          `)
+          .setHTML(getFeaturePopupHtml(properties))
           .addTo(map.current!);
+      };
+
+      // Add click handlers for viewport buildings, flat and extruded
+      ['viewport-buildings-fill', 'viewport-buildings-extrusion'].forEach(layerId => {
+        map.current!.on('click', layerId, (e) => {
+          if (!e.features || e.features.length === 0) return;
+
+          // Rendered features are clipped to tiles, so resolve the full footprint from the loaded data
+          const building = findFeatureAtPoint(buildingsRef.current.features, [e.lngLat.lng, e.lngLat.lat]);
+          if (building) selectBuildingRef.current(building);
+
+          if (isTopmost(e, layerId)) showFeaturePopup(e);
+        });
+      });
+
+      // Building parts, land use and points of interest have popups of their own
+      FEATURE_CLASS_CLICK_LAYERS.forEach(layerId => {
+        map.current!.on('click', layerId, (e) => {
+          if (isTopmost(e, layerId)) showFeaturePopup(e);
+        });
       });
 
       // Add click handlers for zoning
@@ -200,6 +664,8 @@ const MapPanel = () => {
                 ${properties?.WIDMUNG ? `<div><strong>Zoning:</strong> ${properties.WIDMUNG}</div>` : ''}
                 ${properties?.NUTZUNGSART ? `<div><strong>Use:</strong> ${properties.NUTZUNGSART}</div>` : ''}
                 ${properties?.BAUKLASSE ? `<div><strong>Building Class:</strong> ${properties.BAUKLASSE}</div>` : ''}
+                ${properties?.BAUWEISE ? `<div><strong>Bauweise:</strong> ${properties.BAUWEISE}</div>` : ''}
+                ${properties?.MAX_HOEHE ? `<div><strong>Height Limit:</strong> ${properties.MAX_HOEHE} m</div>` : ''}
               </div>
             </div>
           `)
@@ -207,12 +673,30 @@ const MapPanel = () => {
       });
 
       // Change cursor on hover for viewport buildings
-      map.current.on('mouseenter', 'viewport-buildings-fill', () => {
-        if (map.current) map.current.getCanvas().style.cursor = 'pointer';
+      ['viewport-buildings-fill', 'viewport-buildings-extrusion'].forEach(layerId => {
+        map.current!.on('mouseenter', layerId, () => {
+          if (map.current) map.current.getCanvas().style.cursor = 'pointer';
+        });
+
+        map.current!.on('mouseleave', layerId, () => {
+          if (map.current) map.current.getCanvas().style.cursor = '';
+          setHoverState(null);
+        });
+
+        map.current!.on('mousemove', layerId, (e) => {
+          const id = e.features?.[0]?.id;
+          setHoverState(id === undefined ? null : `${id}`);
+        });
       });
 
-      map.current.on('mouseleave', 'viewport-buildings-fill', () => {
-        if (map.current) map.current.getCanvas().style.cursor = '';
+      FEATURE_CLASS_CLICK_LAYERS.forEach(layerId => {
+        map.current!.on('mouseenter', layerId, () => {
+          if (map.current) map.current.getCanvas().style.cursor = 'pointer';
+        });
+
+        map.current!.on('mouseleave', layerId, () => {
+          if (map.current) map.current.getCanvas().style.cursor = '';
+        });
       });
 
       map.current.on('mouseenter', 'zoning-fill', () => {
@@ -240,40 +724,240 @@ const MapPanel = () => {
     return () => {
       map.current?.remove();
     };
-  }, [mapboxToken, viennaData, layersVisible, loadViewportBuildings]);
+  }, [mapboxToken, viennaData, loadViewportBuildings, setHoverState, setSelectedState]);
 
-  // Update viewport buildings source when data changes
+  // Update viewport buildings source when data changes. Only the buildings
+  // around the current view are handed to Mapbox.
   useEffect(() => {
     if (map.current && map.current.getSource('viewport-buildings')) {
       const source = map.current.getSource('viewport-buildings') as mapboxgl.GeoJSONSource;
-      source.setData(viewportBuildings);
+      source.setData(visibleFeatures.building);
+    }
+
+    FEATURE_CLASS_LAYERS.forEach(({ featureClass, source: sourceId }) => {
+      const source = map.current?.getSource(sourceId) as mapboxgl.GeoJSONSource | undefined;
+      source?.setData(visibleFeatures[featureClass]);
+    });
+  }, [visibleFeatures]);
+
+  // Fly to searched addresses and select the building underneath once it is loaded
+  useEffect(() => {
+    if (!focusRequest || !map.current) return;
+
+    map.current.flyTo({ center: focusRequest.center, zoom: focusRequest.zoom });
+    pendingSelectionRef.current = focusRequest.selectAtCenter ? focusRequest.center : null;
+  }, [focusRequest]);
+
+  useEffect(() => {
+    const point = pendingSelectionRef.current;
+    if (!point) return;
+
+    const building = findFeatureAtPoint(viewportBuildings.features, point);
+    if (building) {
+      pendingSelectionRef.current = null;
+      selectBuilding(building);
+    }
+  }, [viewportBuildings, focusRequest, selectBuilding]);
+
+  // Update the selection highlight
+  useEffect(() => {
+    setSelectedState(selectedBuilding?.id ?? null);
+  }, [selectedBuilding, setSelectedState]);
+
+  // Update the ghost massing when the selection or its zoning changes
+  useEffect(() => {
+    if (map.current && map.current.getSource('ghost-massing')) {
+      const source = map.current.getSource('ghost-massing') as mapboxgl.GeoJSONSource;
+      source.setData(ghostMassing);
+    }
+  }, [ghostMassing]);
+
+  useEffect(() => {
+    if (map.current && map.current.getSource('solar-potential')) {
+      const source = map.current.getSource('solar-potential') as mapboxgl.GeoJSONSource;
+      source.setData(solarPotential);
+    }
+  }, [solarPotential]);
+
+  // Update the shadow study layers
+  useEffect(() => {
+    if (map.current && map.current.getSource('facade-sun')) {
+      syncShadowImage(map.current, shadowStudy.shadowImage);
+    }
+  }, [shadowStudy.shadowImage]);
+
+  useEffect(() => {
+    if (map.current && map.current.getSource('facade-sun')) {
+      const source = map.current.getSource('facade-sun') as mapboxgl.GeoJSONSource;
+      source.setData(facadeSun);
+    }
+  }, [facadeSun]);
+
+  // Update assistant highlights
+  useEffect(() => {
+    if (map.current && map.current.getSource('highlighted-buildings')) {
+      const source = map.current.getSource('highlighted-buildings') as mapboxgl.GeoJSONSource;
+      source.setData(highlightedBuildings);
+    }
+  }, [highlightedBuildings]);
+
+  // Update zoning source when more of the zoning plan is loaded
+  useEffect(() => {
+    if (map.current && map.current.getSource('vienna-zoning')) {
+      const source = map.current.getSource('vienna-zoning') as mapboxgl.GeoJSONSource;
+      source.setData(zoning);
     }
-  }, [viewportBuildings]);
+  }, [zoning]);
 
-  const toggleLayer = (layerName: string) => {
+  const setLayerVisibility = useCallback((layerName: MapLayerName, visible: boolean) => {
     setLayersVisible(prev => ({
       ...prev,
-      [layerName]: !prev[layerName]
+      [layerName]: visible
     }));
     
-    if (map.current) {
-      const visibility = layersVisible[layerName] ? 'none' : 'visible';
+    if (map.current && map.current.isStyleLoaded()) {
+      const visibility = visible ? 'visible' : 'none';
       
       switch (layerName) {
         case 'buildings':
-          map.current.setLayoutProperty('viewport-buildings-fill', 'visibility', visibility);
-          map.current.setLayoutProperty('viewport-buildings-line', 'visibility', visibility);
+          applyBuildingLayerVisibility(map.current, visible, show3dRef.current);
           break;
         case 'zoning':
           map.current.setLayoutProperty('zoning-fill', 'visibility', visibility);
           break;
+        case 'solar':
+          map.current.setLayoutProperty('solar-potential-fill', 'visibility', visibility);
+          break;
         case 'parcels':
           // Keep for backward compatibility if we add parcel-specific layers later
           break;
       }
     }
+  }, []);
+
+  const toggleLayer = (layerName: MapLayerName) => {
+    setLayerVisibility(layerName, !layersVisible[layerName]);
   };
 
+  // Switch between flat footprints and extruded buildings, tilting the camera
+  const toggle3d = () => {
+    const next = !show3d;
+    setShow3d(next);
+
+    if (map.current && map.current.isStyleLoaded()) {
+      applyBuildingLayerVisibility(map.current, layersVisibleRef.current.buildings, next);
+      map.current.easeTo({ pitch: next ? PITCH_3D : 0 });
+    }
+  };
+
+  // Colour buildings by construction period, loading the Gebäudealter data for the view
+  const toggleColorByPeriod = () => {
+    const next = !colorByPeriod;
+    setColorByPeriod(next);
+    // loadViewportBuildings reads the ref, which would only follow on the next render
+    colorByPeriodRef.current = next;
+
+    if (map.current && map.current.isStyleLoaded()) {
+      const colors = buildingColors(next);
+      map.current.setPaintProperty('viewport-buildings-fill', 'fill-color', colors.fill);
+      map.current.setPaintProperty('viewport-buildings-extrusion', 'fill-extrusion-color', colors.extrusion);
+      if (next) loadViewportBuildings();
+    }
+  };
+
+  // Assistant tools executed by the map
+  useEffect(() => {
+    const geocoder = createDefaultGeocoder(() => buildingsRef.current.features);
+
+    const currentBounds = (): MapBounds | null => {
+      if (!map.current) return null;
+      const bounds = map.current.getBounds();
+      return {
+        north: bounds.getNorth(),
+        south: bounds.getSouth(),
+        east: bounds.getEast(),
+        west: bounds.getWest()
+      };
+    };
+
+    const unregister = [
+      registerTool('flyTo', async ({ address }) => {
+        if (!map.current) throw new Error('The map is not ready');
+
+        const result = await geocoder.geocode(address);
+        if (!result) throw new Error(`Address not found: ${address}`);
+
+        const moved = new Promise<void>(resolve => {
+          map.current!.once('moveend', () => resolve());
+          setTimeout(resolve, FLY_TO_TIMEOUT_MS);
+        });
+        focusOn(result.coordinates);
+        await moved;
+
+        // Make sure the destination's buildings are loaded before later tools run
+        const bounds = currentBounds();
+        if (bounds) await loadBuildings(bounds);
+
+        return { address: result.label, coordinates: result.coordinates, source: result.source };
+      }),
+
+      registerTool('selectBuilding', async ({ id }) => {
+        const building = findBuildingById(buildingsRef.current.features, id);
+        if (!building) throw new Error(`No loaded building with id ${id}`);
+
+        selectBuilding(building);
+        return { id, address: building.properties.ADRESSE || null };
+      }),
+
+      registerTool('toggleLayer', async ({ layer, visible }) => {
+        if (!(layer in layersVisibleRef.current)) throw new Error(`Unknown layer: ${layer}`);
+
+        const nextVisible = visible ?? !layersVisibleRef.current[layer];
+        setLayerVisibility(layer, nextVisible);
+        return { layer, visible: nextVisible };
+      }),
+
+      registerTool('listBuildingsInView', async ({ minFloors, maxFloors, nameContains, limit = 25, highlight = true }) => {
+        const bounds = currentBounds();
+        if (!bounds) throw new Error('The map is not ready');
+
+        const needle = nameContains?.toLowerCase();
+        const matches = buildingsRef.current.features.filter(building => {
+          const [lng, lat] = geometryCentroid(building.geometry);
+          if (lng < bounds.west || lng > bounds.east || lat < bounds.south || lat > bounds.north) return false;
+
+          const floors = building.properties.STOCKWERKE;
+          if (minFloors !== undefined && (floors === undefined || floors < minFloors)) return false;
+          if (maxFloors !== undefined && (floors === undefined || floors > maxFloors)) return false;
+
+          if (needle) {
+            const text = `${building.properties.ADRESSE || ''} ${building.properties.NAME || ''}`.toLowerCase();
+            if (!text.includes(needle)) return false;
+          }
+
+          return true;
+        });
+
+        if (highlight) {
+          setHighlightedBuildings({ type: 'FeatureCollection', features: matches });
+        }
+
+        return {
+          total: matches.length,
+          highlighted: highlight,
+          buildings: matches.slice(0, limit).map(building => ({
+            id: getBuildingId(building),
+            address: building.properties.ADRESSE || null,
+            name: building.properties.NAME || null,
+            floors: building.properties.STOCKWERKE ?? null
+          }))
+        };
+      })
+    ];
+
+    return () => unregister.forEach(fn => fn());
+  }, [registerTool, focusOn, loadBuildings, selectBuilding, setLayerVisibility]);
+
   if (showTokenInput) {
     return (
       <div className="h-full bg-panel flex flex-col">
@@ -418,24 +1102,115 @@ const MapPanel = () => {
               key={key}
               variant="ghost"
               size="sm"
-              onClick={() => toggleLayer(key)}
+              onClick={() => toggleLayer(key as MapLayerName)}
               className="h-7 px-2"
             >
               {visible ? <Eye className="w-3 h-3 mr-1" /> : <EyeOff className="w-3 h-3 mr-1" />}
               <span className="text-xs capitalize">{key}</span>
             </Button>
           ))}
+          <Button
+            variant={show3d ? 'secondary' : 'ghost'}
+            size="sm"
+            onClick={toggle3d}
+            className="h-7 px-2"
+            title="Show buildings extruded by height"
+          >
+            <Box className="w-3 h-3 mr-1" />
+            <span className="text-xs">{show3d ? '3D' : '2D'}</span>
+          </Button>
+          <Button
+            variant={colorByPeriod ? 'secondary' : 'ghost'}
+            size="sm"
+            onClick={toggleColorByPeriod}
+            className="h-7 px-2"
+            title="Colour buildings by construction period"
+          >
+            <History className="w-3 h-3 mr-1" />
+            <span className="text-xs">Period</span>
+          </Button>
+          <Button
+            variant={shadowStudy.enabled ? 'secondary' : 'ghost'}
+            size="sm"
+            onClick={() => shadowStudy.setEnabled(!shadowStudy.enabled)}
+            className="h-7 px-2"
+            title="Sun and shadow study for the selected building"
+          >
+            <Sun className="w-3 h-3 mr-1" />
+            <span className="text-xs">Shadows</span>
+          </Button>
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="ghost" size="sm" className="h-7 px-2" title="Choose which OSM features to load">
+                <SlidersHorizontal className="w-3 h-3 mr-1" />
+                <span className="text-xs">OSM: {featureClasses.length}/{FEATURE_CLASS_PRESETS.length}</span>
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-72 text-xs space-y-3">
+              <p className="font-medium">OSM features to load</p>
+              {FEATURE_CLASS_PRESETS.map(preset => (
+                <label key={preset.id} className="flex items-start gap-2 cursor-pointer">
+                  <Checkbox
+                    checked={featureClasses.includes(preset.id)}
+                    onCheckedChange={checked => setFeatureClassEnabled(preset.id, checked === true)}
+                  />
+                  <span>
+                    <span className="block font-medium">{preset.label}</span>
+                    <span className="text-muted-foreground">{preset.description}</span>
+                  </span>
+                </label>
+              ))}
+            </PopoverContent>
+          </Popover>
         </div>
         <div className="flex items-center gap-4 text-xs text-muted-foreground">
-          <span>Buildings loaded: {cacheInfo.totalBuildings}</span>
-          <span>Cache areas: {cacheInfo.size}</span>
-          {buildingLoading && <span className="text-primary">Loading viewport...</span>}
+          <span>Buildings loaded: {cacheInfo.totalBuildings} / {cacheInfo.maxFeatures}</span>
+          <span>In view: {cacheInfo.visibleBuildings}</span>
+          <CacheStatusPopover tilesInMemory={cacheInfo.size} />
+          {diagnostics.length > 0 && (
+            <Popover>
+              <PopoverTrigger asChild>
+                <button type="button" className="underline decoration-dotted hover:text-foreground">
+                  Geometry: {diagnostics.length - droppedCount} repaired
+                  {droppedCount > 0 && `, ${droppedCount} dropped`}
+                </button>
+              </PopoverTrigger>
+              <PopoverContent className="w-80 max-h-80 overflow-y-auto text-xs space-y-2">
+                {diagnostics.filter(hasWarnings).map(entry => (
+                  <div key={entry.featureId}>
+                    <p className="font-medium">
+                      {entry.label} <span className="text-muted-foreground">({entry.featureId})</span>
+                      {entry.dropped && <span className="text-destructive"> · dropped</span>}
+                    </p>
+                    <ul className="text-muted-foreground list-disc pl-4">
+                      {entry.issues.map((issue, index) => (
+                        <li key={index}>{issue.message}</li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </PopoverContent>
+            </Popover>
+          )}
+          {buildingRetry ? (
+            <RetryCountdown retry={buildingRetry} />
+          ) : buildingLoading && (
+            <span className="text-primary">
+              Loading viewport ({pendingRequests} {pendingRequests === 1 ? 'request' : 'requests'})
+              {buildingProgress ? `: ${formatLoadProgress(buildingProgress)}` : '...'}
+            </span>
+          )}
+          {buildingError && !buildingLoading && <span className="text-destructive">{buildingError}</span>}
         </div>
       </div>
 
       {/* Map Container */}
       <div className="flex-1 relative">
         <div ref={mapContainer} className="absolute inset-0" />
+
+        {shadowStudy.enabled && (
+          <ShadowStudyPanel study={shadowStudy} siteSelected={selectedBuilding !== null} />
+        )}
         
         {/* Map Legend */}
         <div className="absolute bottom-4 left-4 bg-white rounded-lg shadow-lg p-3 min-w-48">
@@ -445,13 +1220,91 @@ const MapPanel = () => {
               <div className="w-4 h-3 bg-primary/30 border border-primary rounded"></div>
               <span>Selected Parcel</span>
             </div>
+            {highlightedBuildings.features.length > 0 && (
+              <div className="flex items-center gap-2">
+                <div className="w-4 h-3 rounded" style={{ backgroundColor: HIGHLIGHT_COLOR }}></div>
+                <span>Assistant results ({highlightedBuildings.features.length})</span>
+                <button
+                  type="button"
+                  className="text-muted-foreground hover:text-foreground"
+                  onClick={() => setHighlightedBuildings(EMPTY_COLLECTION)}
+                  title="Clear highlights"
+                >
+                  ×
+                </button>
+              </div>
+            )}
+            {layersVisible.solar && (
+              <div className="space-y-1">
+                <span className="text-muted-foreground">Rooftop solar yield per year</span>
+                <div className="flex items-center gap-1">
+                  {SOLAR_CLASSES.map(({ kwh, color }) => (
+                    <div key={kwh} className="flex items-center gap-1">
+                      <div className="w-4 h-3 rounded" style={{ backgroundColor: color }}></div>
+                      <span>{kwh === 0 ? '0' : `${kwh / 1000} MWh`}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+            {colorByPeriod && (
+              <div className="space-y-1">
+                <span className="text-muted-foreground">Construction period</span>
+                {CONSTRUCTION_PERIODS.map(({ label, color }) => (
+                  <div key={label} className="flex items-center gap-2">
+                    <div className="w-4 h-3 rounded" style={{ backgroundColor: color }}></div>
+                    <span>{label}</span>
+                  </div>
+                ))}
+                <div className="flex items-center gap-2">
+                  <div className="w-4 h-3 rounded" style={{ backgroundColor: UNKNOWN_PERIOD_COLOR }}></div>
+                  <span>Unknown</span>
+                </div>
+              </div>
+            )}
+            {show3d && (
+              <div className="space-y-1">
+                {!colorByPeriod && (
+                  <>
+                    <span className="text-muted-foreground">Building height</span>
+                    {(Object.keys(HEIGHT_SOURCE_COLORS) as HeightSource[]).map(source => (
+                      <div key={source} className="flex items-center gap-2">
+                        <div className="w-4 h-3 rounded" style={{ backgroundColor: HEIGHT_SOURCE_COLORS[source] }}></div>
+                        <span className="capitalize">{HEIGHT_SOURCE_LABELS[source]}</span>
+                      </div>
+                    ))}
+                  </>
+                )}
+                {ghostMassing.features.length > 0 && (
+                  <div className="flex items-center gap-2">
+                    <div className="w-4 h-3 rounded border" style={{ backgroundColor: GHOST_COLOR, opacity: 0.5, borderColor: GHOST_COLOR }}></div>
+                    <span>Permitted envelope (up to {potential?.permittedHeight.value} m)</span>
+                  </div>
+                )}
+              </div>
+            )}
+            {potential && potential.additionalFloors.value !== null && (
+              <div className="flex items-center gap-2">
+                <Badge variant="outline" className="text-xs bg-green-50">+{potential.additionalFloors.value}</Badge>
+                <span>Additional floors possible</span>
+              </div>
+            )}
             <div className="flex items-center gap-2">
               <Badge variant="secondary" className="text-xs">A</Badge>
               <span>Kerngebiet A (Core Area)</span>
             </div>
-            <div className="flex items-center gap-2">
-              <Badge variant="outline" className="text-xs bg-green-50">+4</Badge>
-              <span>Additional floors possible</span>
+            <div className="space-y-1">
+              <span className="text-muted-foreground">Max floors by Bauklasse ({DEFAULT_STOREY_HEIGHT} m storeys)</span>
+              <div className="flex flex-wrap gap-1">
+                {LEGEND_BAUKLASSEN.map(code => {
+                  const limits = getFloorLimits(BAUKLASSE_RULES[code], DEFAULT_STOREY_HEIGHT);
+                  return (
+                    <Badge key={code} variant="outline" className="text-xs bg-green-50">
+                      {code}: {limits.maxFloors !== null ? `≤${limits.maxFloors}` : `≥${limits.minFloors}`}
+                    </Badge>
+                  );
+                })}
+              </div>
             </div>
           </div>
         </div>
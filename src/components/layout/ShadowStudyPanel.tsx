@@ -0,0 +1,165 @@
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Slider } from '@/components/ui/slider';
+import { Sun, X } from 'lucide-react';
+import { EXTENSION_SHADOW_COLOR, SHADOW_COLOR, ShadowStudyResult } from '@/hooks/useShadowStudy';
+import { compassDirection, isSunUp } from '@/utils/shadows';
+
+interface ShadowStudyPanelProps {
+  study: ShadowStudyResult;
+  siteSelected: boolean;
+}
+
+// Dates planners usually compare: equinox and both solstices
+const KEY_DATES = [
+  { label: '21 Mar', month: 3 },
+  { label: '21 Jun', month: 6 },
+  { label: '21 Dec', month: 12 }
+];
+
+// Neighbouring facades listed, most sun lost first
+const MAX_FACADES = 30;
+
+const formatMinutes = (minutes: number): string =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+const parseMinutes = (value: string): number | null => {
+  const match = value.match(/^(\d{2}):(\d{2})$/);
+  return match ? parseInt(match[1]) * 60 + parseInt(match[2]) : null;
+};
+
+// Map overlay with the controls and results of the sun and shadow study
+const ShadowStudyPanel = ({ study, siteSelected }: ShadowStudyPanelProps) => {
+  const { settings, updateSettings, sun, facades, extensionHeight } = study;
+  const year = settings.date.slice(0, 4);
+
+  return (
+    <Card className="absolute top-4 left-4 w-80 p-3 text-xs space-y-3 shadow-lg">
+      <div className="flex items-center justify-between">
+        <h4 className="font-semibold text-sm flex items-center gap-1">
+          <Sun className="w-4 h-4" />
+          Sun &amp; shadow study
+        </h4>
+        <Button variant="ghost" size="sm" className="h-6 px-1" onClick={() => study.setEnabled(false)} title="Close">
+          <X className="w-3 h-3" />
+        </Button>
+      </div>
+
+      {!siteSelected ? (
+        <p className="text-muted-foreground">Select a building to study the shadows around it.</p>
+      ) : (
+        <>
+          <div className="space-y-1">
+            <Input
+              type="date"
+              className="h-8 text-xs"
+              value={settings.date}
+              onChange={e => e.target.value && updateSettings({ date: e.target.value })}
+            />
+            <div className="flex gap-1">
+              {KEY_DATES.map(({ label, month }) => (
+                <Button
+                  key={label}
+                  variant="outline"
+                  size="sm"
+                  className="h-6 px-2 text-xs"
+                  onClick={() => updateSettings({ date: `${year}-${String(month).padStart(2, '0')}-21` })}
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Input
+              type="time"
+              step={900}
+              className="h-8 text-xs"
+              value={formatMinutes(settings.startMinutes)}
+              onChange={e => {
+                const minutes = parseMinutes(e.target.value);
+                if (minutes !== null) updateSettings({ startMinutes: minutes });
+              }}
+            />
+            <span>–</span>
+            <Input
+              type="time"
+              step={900}
+              className="h-8 text-xs"
+              value={formatMinutes(settings.endMinutes)}
+              onChange={e => {
+                const minutes = parseMinutes(e.target.value);
+                if (minutes !== null) updateSettings({ endMinutes: minutes });
+              }}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Slider
+              min={settings.startMinutes}
+              max={settings.endMinutes}
+              step={15}
+              value={[settings.timeMinutes]}
+              onValueChange={([minutes]) => updateSettings({ timeMinutes: minutes })}
+            />
+            <p>
+              <span className="font-medium">{formatMinutes(settings.timeMinutes)}</span>
+              {isSunUp(sun)
+                ? ` · sun ${sun.altitude.toFixed(0)}° high from the ${compassDirection(sun.azimuth)} (${sun.azimuth.toFixed(0)}°)`
+                : ' · sun too low for direct light'}
+            </p>
+          </div>
+
+          <div className="space-y-1">
+            <div className="flex items-center gap-2">
+              <div className="w-4 h-3 rounded opacity-60" style={{ backgroundColor: SHADOW_COLOR }}></div>
+              <span>Existing shadow</span>
+            </div>
+            {extensionHeight ? (
+              <div className="flex items-center gap-2">
+                <div className="w-4 h-3 rounded opacity-60" style={{ backgroundColor: EXTENSION_SHADOW_COLOR }}></div>
+                <span>
+                  Extra shadow of an extension {extensionHeight.base.toFixed(1)}–{extensionHeight.top.toFixed(1)} m
+                </span>
+              </div>
+            ) : (
+              <p className="text-muted-foreground">No extension permitted above the existing building.</p>
+            )}
+          </div>
+
+          <div className="space-y-1">
+            <p className="font-medium">
+              Direct sun on neighbouring facades ({formatMinutes(settings.startMinutes)}–{formatMinutes(settings.endMinutes)})
+            </p>
+            {facades.length === 0 ? (
+              <p className="text-muted-foreground">No neighbouring buildings loaded.</p>
+            ) : (
+              <ScrollArea className="h-40">
+                <table className="w-full">
+                  <tbody>
+                    {facades.slice(0, MAX_FACADES).map(facade => {
+                      const lost = facade.hoursWithExtension !== null ? facade.hours - facade.hoursWithExtension : 0;
+                      return (
+                        <tr key={facade.id} className="border-b border-panel-border last:border-0">
+                          <td className="py-1 pr-2 truncate max-w-40" title={facade.label}>{facade.label}</td>
+                          <td className="py-1 pr-2 text-muted-foreground">{facade.orientation}</td>
+                          <td className="py-1 pr-2 text-right">{facade.hours.toFixed(1)} h</td>
+                          <td className="py-1 text-right text-destructive">{lost >= 0.05 ? `−${lost.toFixed(1)} h` : ''}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </ScrollArea>
+            )}
+          </div>
+        </>
+      )}
+    </Card>
+  );
+};
+
+export default ShadowStudyPanel;
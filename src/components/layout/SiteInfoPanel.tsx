@@ -1,33 +1,108 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
-import { Building, MapPin, Ruler, FileText, Search } from 'lucide-react';
+import { Building, MapPin, Ruler, FileText, Search, X, Loader2, Sun, ChevronDown, ChevronUp } from 'lucide-react';
+import { useMapData } from '@/hooks/useMapData';
+import { useSiteSelection } from '@/hooks/useSiteSelection';
+import { useAssistantTools } from '@/hooks/useAssistantTools';
+import { useAddressSearch } from '@/hooks/useAddressSearch';
+import { GeocodeResult } from '@/utils/geocoding';
+import { TracedValue, analyzeDevelopmentPotential, findZoningForBuilding } from '@/utils/developmentPotential';
+import { findBuildingById, getBuildingId } from '@/utils/buildings';
+import { formatHeightRange } from '@/utils/bauklasse';
+import { estimateSolarPotential } from '@/utils/solarPotential';
+import { compassDirection } from '@/utils/shadows';
+import { formatConstructionYear } from '@/utils/buildingAge';
+
+const formatTraced = (traced: TracedValue): string => {
+  if (traced.value === null) return '—';
+  return traced.unit === 'floors' ? `${traced.value}` : `${traced.value} ${traced.unit}`;
+};
 
 const SiteInfoPanel = () => {
-  const [selectedSite, setSelectedSite] = useState(null);
+  const { viennaData, viewport, zoning: zoningPlan } = useMapData();
+  const {
+    selectedBuilding,
+    potential,
+    storeyHeight,
+    setStoreyHeight,
+    clearSelection,
+    focusOn
+  } = useSiteSelection();
+  const { registerTool } = useAssistantTools();
   const [searchAddress, setSearchAddress] = useState('');
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [showAnalysis, setShowAnalysis] = useState(false);
+  const [showRawAttributes, setShowRawAttributes] = useState(false);
+
+  // Local address index covers viewport buildings and the fallback data
+  const searchableBuildings = useMemo(() => [
+    ...viewport.buildings.features,
+    ...(viennaData?.buildings.features || [])
+  ], [viewport.buildings, viennaData]);
+
+  const {
+    suggestions,
+    loading: searching,
+    error: searchError,
+    resolve,
+    clearSuggestions
+  } = useAddressSearch(searchAddress, searchableBuildings);
+
+  // Every OSM tag of the selected building, alphabetically
+  const rawAttributes = useMemo(
+    () => Object.entries(selectedBuilding?.properties.TAGS ?? {}).sort(([a], [b]) => a.localeCompare(b)),
+    [selectedBuilding]
+  );
+
+  const solar = useMemo(() => selectedBuilding ? estimateSolarPotential(selectedBuilding) : null, [selectedBuilding]);
+
+  // Collapse the detailed breakdown whenever a different site is selected
+  useEffect(() => {
+    setShowAnalysis(false);
+  }, [selectedBuilding]);
+
+  // Assistant tool: development potential for the selected or a listed building
+  useEffect(() => registerTool('computePotential', async ({ id }) => {
+    const building = id ? findBuildingById(searchableBuildings, id) : selectedBuilding;
+    if (!building) throw new Error(id ? `No loaded building with id ${id}` : 'No building is selected');
+
+    const result = analyzeDevelopmentPotential({
+      building,
+      zoning: findZoningForBuilding(building, zoningPlan.features),
+      storeyHeight
+    });
+
+    return {
+      id: getBuildingId(building),
+      address: result.address,
+      zoning: result.zoning,
+      currentFloors: result.currentFloors,
+      currentHeight: result.currentHeight,
+      permittedHeight: result.permittedHeight,
+      permittedFloors: result.permittedFloors,
+      additionalFloors: result.additionalFloors,
+      warnings: result.warnings
+    };
+  }), [registerTool, searchableBuildings, selectedBuilding, zoningPlan, storeyHeight]);
 
-  const mockSiteData = {
-    address: '1010 Vienna, Stephansplatz 1',
-    parcelId: 'AT-1010-001-23',
-    zone: 'Kerngebiet A',
-    buildingHeight: '32m',
-    floorAreaRatio: '4.5',
-    plotRatio: '0.8',
-    currentFloors: 8,
-    maxAllowedFloors: 12,
-    restrictions: ['Historic District', 'Height Limitation', 'Facade Preservation']
+  const handleSearch = async () => {
+    if (!searchAddress.trim()) return;
+
+    setShowSuggestions(false);
+    const result = await resolve(searchAddress);
+    if (result) focusOn(result.coordinates);
   };
 
-  const handleSearch = () => {
-    // Mock search functionality
-    if (searchAddress) {
-      setSelectedSite(mockSiteData);
-    }
+  const handleSelectSuggestion = (suggestion: GeocodeResult) => {
+    setSearchAddress(suggestion.label);
+    setShowSuggestions(false);
+    clearSuggestions();
+    focusOn(suggestion.coordinates);
   };
 
   return (
@@ -47,45 +122,124 @@ const SiteInfoPanel = () => {
             <CardTitle className="text-sm">Search Address</CardTitle>
           </CardHeader>
           <CardContent className="space-y-3">
-            <div className="flex gap-2">
-              <Input
-                placeholder="Enter Vienna address..."
-                value={searchAddress}
-                onChange={(e) => setSearchAddress(e.target.value)}
-                className="flex-1"
-              />
-              <Button onClick={handleSearch} size="sm">
-                <Search className="w-4 h-4" />
-              </Button>
+            <div className="relative">
+              <div className="flex gap-2">
+                <Input
+                  placeholder="Enter Vienna address..."
+                  value={searchAddress}
+                  onChange={(e) => {
+                    setSearchAddress(e.target.value);
+                    setShowSuggestions(true);
+                  }}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleSearch();
+                    if (e.key === 'Escape') setShowSuggestions(false);
+                  }}
+                  className="flex-1"
+                />
+                <Button onClick={handleSearch} size="sm" disabled={searching}>
+                  {searching ? <Loader2 className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />}
+                </Button>
+              </div>
+
+              {showSuggestions && suggestions.length > 0 && (
+                <div className="absolute z-10 mt-1 w-full rounded-md border bg-white shadow-lg">
+                  {suggestions.map((suggestion) => (
+                    <button
+                      key={`${suggestion.source}-${suggestion.label}`}
+                      type="button"
+                      className="w-full px-3 py-2 text-left hover:bg-muted"
+                      onClick={() => handleSelectSuggestion(suggestion)}
+                    >
+                      <p className="text-sm">{suggestion.label}</p>
+                      <p className="text-xs text-muted-foreground">{suggestion.source}</p>
+                    </button>
+                  ))}
+                </div>
+              )}
             </div>
+            {searchError && (
+              <p className="text-xs text-destructive">{searchError}</p>
+            )}
           </CardContent>
         </Card>
 
-        {selectedSite && (
+        {selectedBuilding && potential && (
           <>
             {/* Basic Information */}
             <Card>
               <CardHeader className="pb-3">
-                <CardTitle className="text-sm flex items-center gap-2">
-                  <MapPin className="w-4 h-4" />
-                  Property Details
+                <CardTitle className="text-sm flex items-center justify-between">
+                  <span className="flex items-center gap-2">
+                    <MapPin className="w-4 h-4" />
+                    Property Details
+                  </span>
+                  <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={clearSelection} title="Clear selection">
+                    <X className="w-4 h-4" />
+                  </Button>
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-3">
                 <div>
                   <Label className="text-xs text-muted-foreground">Address</Label>
-                  <p className="text-sm font-medium">{selectedSite.address}</p>
-                </div>
-                <div>
-                  <Label className="text-xs text-muted-foreground">Parcel ID</Label>
-                  <p className="text-sm font-mono">{selectedSite.parcelId}</p>
+                  <p className="text-sm font-medium">{potential.address || 'Unknown address'}</p>
                 </div>
+                {selectedBuilding.properties.NAME && (
+                  <div>
+                    <Label className="text-xs text-muted-foreground">Name</Label>
+                    <p className="text-sm">{selectedBuilding.properties.NAME}</p>
+                  </div>
+                )}
                 <div>
                   <Label className="text-xs text-muted-foreground">Zoning</Label>
-                  <Badge variant="secondary" className="mt-1">
-                    {selectedSite.zone}
-                  </Badge>
+                  <div>
+                    <Badge variant="secondary" className="mt-1">
+                      {potential.zoning?.WIDMUNG || 'No zoning data'}
+                    </Badge>
+                  </div>
                 </div>
+                {[
+                  { label: 'Built', value: formatConstructionYear(selectedBuilding.properties), source: selectedBuilding.properties.QUELLEN?.BAUJAHR },
+                  { label: 'Material', value: selectedBuilding.properties.MATERIAL, source: selectedBuilding.properties.QUELLEN?.MATERIAL },
+                  {
+                    label: 'Heritage',
+                    value: selectedBuilding.properties.DENKMALSCHUTZ ? 'Listed monument' : undefined,
+                    source: selectedBuilding.properties.QUELLEN?.DENKMALSCHUTZ
+                  }
+                ].filter(({ value }) => value !== undefined).map(({ label, value, source }) => (
+                  <div key={label}>
+                    <Label className="text-xs text-muted-foreground">{label}</Label>
+                    <p className="text-sm">
+                      {value}
+                      {source && <span className="text-xs text-muted-foreground"> · {source}</span>}
+                    </p>
+                  </div>
+                ))}
+                {rawAttributes.length > 0 && (
+                  <div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 px-1 text-xs text-muted-foreground"
+                      onClick={() => setShowRawAttributes(prev => !prev)}
+                    >
+                      {showRawAttributes ? <ChevronUp className="w-3 h-3 mr-1" /> : <ChevronDown className="w-3 h-3 mr-1" />}
+                      Raw attributes ({rawAttributes.length})
+                    </Button>
+                    {showRawAttributes && (
+                      <table className="w-full mt-1 text-xs">
+                        <tbody>
+                          {rawAttributes.map(([key, value]) => (
+                            <tr key={key} className="border-b border-panel-border last:border-0">
+                              <td className="py-1 pr-2 align-top font-mono text-muted-foreground">{key}</td>
+                              <td className="py-1 break-all">{value}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+                )}
               </CardContent>
             </Card>
 
@@ -101,11 +255,11 @@ const SiteInfoPanel = () => {
                 <div className="grid grid-cols-2 gap-3">
                   <div>
                     <Label className="text-xs text-muted-foreground">Current Floors</Label>
-                    <p className="text-lg font-bold text-primary">{selectedSite.currentFloors}</p>
+                    <p className="text-lg font-bold text-primary">{formatTraced(potential.currentFloors)}</p>
                   </div>
                   <div>
                     <Label className="text-xs text-muted-foreground">Max Allowed</Label>
-                    <p className="text-lg font-bold text-green-600">{selectedSite.maxAllowedFloors}</p>
+                    <p className="text-lg font-bold text-green-600">{formatTraced(potential.permittedFloors)}</p>
                   </div>
                 </div>
                 
@@ -114,20 +268,85 @@ const SiteInfoPanel = () => {
                 <div className="space-y-2">
                   <div className="flex justify-between">
                     <span className="text-xs text-muted-foreground">Building Height</span>
-                    <span className="text-sm font-medium">{selectedSite.buildingHeight}</span>
+                    <span className="text-sm font-medium">{formatTraced(potential.currentHeight)}</span>
                   </div>
                   <div className="flex justify-between">
-                    <span className="text-xs text-muted-foreground">Floor Area Ratio</span>
-                    <span className="text-sm font-medium">{selectedSite.floorAreaRatio}</span>
+                    <span className="text-xs text-muted-foreground">Permitted Height</span>
+                    <span className="text-sm font-medium">{formatTraced(potential.permittedHeight)}</span>
                   </div>
                   <div className="flex justify-between">
-                    <span className="text-xs text-muted-foreground">Plot Ratio</span>
-                    <span className="text-sm font-medium">{selectedSite.plotRatio}</span>
+                    <span className="text-xs text-muted-foreground">Footprint Area</span>
+                    <span className="text-sm font-medium">{formatTraced(potential.footprintArea)}</span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <Label htmlFor="storey-height" className="text-xs text-muted-foreground">Storey Height (m)</Label>
+                    <Input
+                      id="storey-height"
+                      type="number"
+                      min={2.5}
+                      max={5}
+                      step={0.1}
+                      value={storeyHeight}
+                      onChange={(e) => {
+                        const value = parseFloat(e.target.value);
+                        if (!isNaN(value) && value > 0) setStoreyHeight(value);
+                      }}
+                      className="h-7 w-20 text-sm"
+                    />
                   </div>
                 </div>
               </CardContent>
             </Card>
 
+            {/* Rooftop Solar */}
+            {solar && (
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-sm flex items-center gap-2">
+                    <Sun className="w-4 h-4" />
+                    Rooftop Solar
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <Label className="text-xs text-muted-foreground">Annual Yield</Label>
+                      <p className="text-lg font-bold text-amber-600">{formatTraced(solar.annualYield)}</p>
+                    </div>
+                    <div>
+                      <Label className="text-xs text-muted-foreground">Peak Power</Label>
+                      <p className="text-lg font-bold text-primary">{formatTraced(solar.peakPower)}</p>
+                    </div>
+                  </div>
+
+                  <Separator />
+
+                  <div className="space-y-2">
+                    <div className="flex justify-between">
+                      <span className="text-xs text-muted-foreground">Usable Roof Area</span>
+                      <span className="text-sm font-medium">{formatTraced(solar.usableArea)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-xs text-muted-foreground">Roof</span>
+                      <span className="text-sm font-medium capitalize">{solar.roofShape.replace(/_/g, ' ')}</span>
+                    </div>
+                    <p className="text-xs text-muted-foreground">{solar.roofSource}</p>
+                    {solar.planes.map((plane, index) => (
+                      <div key={index} className="flex justify-between text-xs">
+                        <span className="text-muted-foreground">
+                          {compassDirection(plane.facing)} plane, {plane.tilt}° ({Math.round(plane.relativeYield * 100)}%)
+                        </span>
+                        <span>{plane.usableArea > 0 ? `${plane.usableArea} m² · ${plane.annualYield} kWh/a` : 'not used'}</span>
+                      </div>
+                    ))}
+                    {solar.warnings.map((warning, index) => (
+                      <p key={index} className="text-xs text-amber-700">{warning}</p>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
             {/* Restrictions */}
             <Card>
               <CardHeader className="pb-3">
@@ -137,13 +356,32 @@ const SiteInfoPanel = () => {
                 </CardTitle>
               </CardHeader>
               <CardContent>
-                <div className="space-y-2">
-                  {selectedSite.restrictions.map((restriction, index) => (
-                    <Badge key={index} variant="outline" className="mr-2 mb-2">
-                      {restriction}
-                    </Badge>
-                  ))}
-                </div>
+                {potential.zoning ? (
+                  <div className="space-y-2">
+                    {potential.zoning.NUTZUNGSART && (
+                      <Badge variant="outline" className="mr-2 mb-2">
+                        {potential.zoning.NUTZUNGSART}
+                      </Badge>
+                    )}
+                    {potential.bauklasse && (
+                      <Badge variant="outline" className="mr-2 mb-2">
+                        {potential.bauklasse.label} ({formatHeightRange(potential.bauklasse)})
+                      </Badge>
+                    )}
+                    {potential.zoning.BAUWEISE && (
+                      <Badge variant="outline" className="mr-2 mb-2">
+                        {potential.zoning.BAUWEISE}
+                      </Badge>
+                    )}
+                    {potential.zoning.MAX_HOEHE && (
+                      <Badge variant="outline" className="mr-2 mb-2">
+                        Height limit {potential.zoning.MAX_HOEHE} m
+                      </Badge>
+                    )}
+                  </div>
+                ) : (
+                  <p className="text-xs text-muted-foreground">No zoning plan covers this building</p>
+                )}
               </CardContent>
             </Card>
 
@@ -155,19 +393,45 @@ const SiteInfoPanel = () => {
               <CardContent>
                 <div className="text-center space-y-2">
                   <div className="text-2xl font-bold text-green-600">
-                    +{selectedSite.maxAllowedFloors - selectedSite.currentFloors} Floors
+                    {potential.additionalFloors.value !== null
+                      ? `+${potential.additionalFloors.value} Floors`
+                      : 'Unknown'}
                   </div>
                   <p className="text-sm text-green-700">Additional floors possible</p>
-                  <Button size="sm" className="w-full mt-3">
-                    Analyze Development Options
+                  <Button size="sm" className="w-full mt-3" onClick={() => setShowAnalysis(prev => !prev)}>
+                    {showAnalysis ? 'Hide Analysis' : 'Analyze Development Options'}
                   </Button>
                 </div>
+
+                {showAnalysis && (
+                  <div className="mt-4 space-y-3 text-left">
+                    {([
+                      ['Footprint area', potential.footprintArea],
+                      ['Current floors', potential.currentFloors],
+                      ['Current height', potential.currentHeight],
+                      ['Permitted height', potential.permittedHeight],
+                      ['Permitted floors', potential.permittedFloors],
+                      ['Additional floors', potential.additionalFloors]
+                    ] as [string, TracedValue][]).map(([label, traced]) => (
+                      <div key={label}>
+                        <div className="flex justify-between">
+                          <span className="text-xs text-green-800">{label}</span>
+                          <span className="text-sm font-medium">{formatTraced(traced)}</span>
+                        </div>
+                        <p className="text-xs text-muted-foreground">{traced.source}</p>
+                      </div>
+                    ))}
+                    {potential.warnings.map((warning, index) => (
+                      <p key={index} className="text-xs text-amber-700">{warning}</p>
+                    ))}
+                  </div>
+                )}
               </CardContent>
             </Card>
           </>
         )}
 
-        {!selectedSite && (
+        {!selectedBuilding && (
           <div className="flex items-center justify-center h-64 text-center">
             <div className="space-y-3">
               <Building className="w-12 h-12 text-muted-foreground mx-auto" />
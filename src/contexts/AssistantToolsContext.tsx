@@ -0,0 +1,51 @@
+import React, { useCallback, useRef } from 'react';
+import {
+  ChatToolArguments,
+  ChatToolCall,
+  ChatToolHandler,
+  ChatToolName,
+  isChatToolName
+} from '@/utils/chat';
+import { AssistantToolsContext } from '@/hooks/useAssistantTools';
+
+// Holds the tool handlers registered by the panels; see useAssistantTools
+export const AssistantToolsProvider = ({ children }: { children: React.ReactNode }) => {
+  const handlersRef = useRef(new Map<ChatToolName, (args: unknown) => Promise<unknown>>());
+
+  const registerTool = useCallback(<T extends ChatToolName>(name: T, handler: ChatToolHandler<T>) => {
+    const wrapped = (args: unknown) => handler(args as ChatToolArguments[T]);
+    handlersRef.current.set(name, wrapped);
+
+    return () => {
+      if (handlersRef.current.get(name) === wrapped) {
+        handlersRef.current.delete(name);
+      }
+    };
+  }, []);
+
+  const executeTool = useCallback(async (call: ChatToolCall) => {
+    if (!isChatToolName(call.name)) {
+      throw new Error(`Unknown tool: ${call.name}`);
+    }
+
+    const handler = handlersRef.current.get(call.name);
+    if (!handler) {
+      throw new Error(`Tool "${call.name}" is not available right now`);
+    }
+
+    let args: unknown;
+    try {
+      args = call.arguments ? JSON.parse(call.arguments) : {};
+    } catch {
+      throw new Error(`Invalid arguments for ${call.name}: ${call.arguments}`);
+    }
+
+    return handler(args);
+  }, []);
+
+  return (
+    <AssistantToolsContext.Provider value={{ registerTool, executeTool }}>
+      {children}
+    </AssistantToolsContext.Provider>
+  );
+};
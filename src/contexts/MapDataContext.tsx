@@ -0,0 +1,55 @@
+import React, { useMemo, useState } from 'react';
+import { useViennaMapData } from '@/hooks/useViennaMapData';
+import { useViewportBuildings } from '@/hooks/useViewportBuildings';
+import { MapDataContext } from '@/hooks/useMapData';
+import { ViennaBuilding, FeatureCollection } from '@/types/vienna';
+import { MapViewState } from '@/utils/mapBounds';
+import { createBuildingAgeJoin } from '@/utils/buildingAge';
+
+const withAges = (
+  collection: FeatureCollection<ViennaBuilding>,
+  joinAge: ((building: ViennaBuilding) => ViennaBuilding) | null
+): FeatureCollection<ViennaBuilding> =>
+  joinAge ? { ...collection, features: collection.features.map(joinAge) } : collection;
+
+// Loads the districts, zoning and buildings served by useMapData
+export const MapDataProvider = ({ children }: { children: React.ReactNode }) => {
+  const { data, loading, error, zoning, zoningLoading, loadZoning, buildingAges, loadBuildingAges } = useViennaMapData();
+  const osmViewport = useViewportBuildings();
+  const [mapView, setMapView] = useState<MapViewState | null>(null);
+
+  // Fill in construction years of OSM buildings from the Gebäudealter dataset,
+  // keeping each collection's identity while nothing changes
+  const joinAge = useMemo(
+    () => buildingAges.features.length > 0 ? createBuildingAgeJoin(buildingAges.features) : null,
+    [buildingAges]
+  );
+  const buildings = useMemo(
+    () => withAges(osmViewport.buildings, joinAge),
+    [osmViewport.buildings, joinAge]
+  );
+  const visibleFeatures = useMemo(() => ({
+    ...osmViewport.visibleFeatures,
+    building: withAges(osmViewport.visibleFeatures.building, joinAge)
+  }), [osmViewport.visibleFeatures, joinAge]);
+  const viewport = { ...osmViewport, buildings, visibleFeatures };
+
+  return (
+    <MapDataContext.Provider
+      value={{
+        viennaData: data,
+        viennaLoading: loading,
+        viennaError: error,
+        zoning,
+        zoningLoading,
+        loadZoning,
+        loadBuildingAges,
+        viewport,
+        mapView,
+        setMapView
+      }}
+    >
+      {children}
+    </MapDataContext.Provider>
+  );
+};
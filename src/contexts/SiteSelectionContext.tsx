@@ -0,0 +1,63 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { useMapData } from '@/hooks/useMapData';
+import { FocusRequest, SiteSelectionContext } from '@/hooks/useSiteSelection';
+import { ViennaBuilding } from '@/types/vienna';
+import {
+  analyzeDevelopmentPotential,
+  findZoningForBuilding,
+  DEFAULT_STOREY_HEIGHT
+} from '@/utils/developmentPotential';
+
+// Holds the selection read through useSiteSelection
+export const SiteSelectionProvider = ({ children }: { children: React.ReactNode }) => {
+  const { zoning } = useMapData();
+  const [selectedBuilding, setSelectedBuilding] = useState<ViennaBuilding | null>(null);
+  const [storeyHeight, setStoreyHeight] = useState(DEFAULT_STOREY_HEIGHT);
+  const [focusRequest, setFocusRequest] = useState<FocusRequest | null>(null);
+
+  // Re-evaluated as more of the zoning plan loads
+  const selectedZoning = useMemo(() => selectedBuilding
+    ? findZoningForBuilding(selectedBuilding, zoning.features)
+    : null,
+  [selectedBuilding, zoning]);
+
+  const potential = useMemo(() => selectedBuilding
+    ? analyzeDevelopmentPotential({ building: selectedBuilding, zoning: selectedZoning, storeyHeight })
+    : null,
+  [selectedBuilding, selectedZoning, storeyHeight]);
+
+  const selectBuilding = useCallback((building: ViennaBuilding | null) => {
+    setSelectedBuilding(building);
+  }, []);
+
+  const clearSelection = useCallback(() => {
+    setSelectedBuilding(null);
+  }, []);
+
+  const focusOn = useCallback((center: [number, number], options: { zoom?: number; selectAtCenter?: boolean } = {}) => {
+    setFocusRequest(prev => ({
+      id: (prev?.id || 0) + 1,
+      center,
+      zoom: options.zoom ?? 18,
+      selectAtCenter: options.selectAtCenter ?? true
+    }));
+  }, []);
+
+  return (
+    <SiteSelectionContext.Provider
+      value={{
+        selectedBuilding,
+        selectedZoning,
+        potential,
+        storeyHeight,
+        setStoreyHeight,
+        selectBuilding,
+        clearSelection,
+        focusRequest,
+        focusOn
+      }}
+    >
+      {children}
+    </SiteSelectionContext.Provider>
+  );
+};
@@ -0,0 +1,82 @@
+import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
+import { ViennaBuilding } from '@/types/vienna';
+import { GeocodeResult, GeocodingProvider, createDefaultGeocoder } from '@/utils/geocoding';
+
+const SUGGEST_DEBOUNCE_MS = 250;
+const MIN_QUERY_LENGTH = 3;
+
+interface AddressSearchResult {
+  suggestions: GeocodeResult[];
+  loading: boolean;
+  error: string | null;
+  resolve: (query: string) => Promise<GeocodeResult | null>;
+  clearSuggestions: () => void;
+}
+
+// Autocomplete + geocoding for the site search box. The local index over loaded
+// buildings is queried first so search works offline.
+export const useAddressSearch = (
+  query: string,
+  buildings: ViennaBuilding[],
+  remoteProvider?: GeocodingProvider
+): AddressSearchResult => {
+  const [suggestions, setSuggestions] = useState<GeocodeResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const buildingsRef = useRef(buildings);
+  buildingsRef.current = buildings;
+
+  const geocoder = useMemo(
+    () => createDefaultGeocoder(() => buildingsRef.current, remoteProvider),
+    [remoteProvider]
+  );
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (trimmed.length < MIN_QUERY_LENGTH) {
+      setSuggestions([]);
+      setLoading(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const results = await geocoder.suggest(trimmed, 8, controller.signal);
+        if (!controller.signal.aborted) setSuggestions(results);
+      } catch (err) {
+        if (!controller.signal.aborted) {
+          console.warn('Address suggestions failed:', err);
+        }
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    }, SUGGEST_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [query, geocoder]);
+
+  const resolve = useCallback(async (address: string) => {
+    setError(null);
+    setLoading(true);
+
+    try {
+      const result = await geocoder.geocode(address.trim());
+      if (!result) setError('Address not found in Vienna');
+      return result;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Address search failed');
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, [geocoder]);
+
+  const clearSuggestions = useCallback(() => setSuggestions([]), []);
+
+  return { suggestions, loading, error, resolve, clearSuggestions };
+};
@@ -0,0 +1,21 @@
+import { createContext, useContext } from 'react';
+import { ChatToolCall, ChatToolHandler, ChatToolName } from '@/utils/chat';
+
+// Registry connecting assistant tool calls to the panels that execute them.
+// Panels register handlers while mounted; the chat panel executes calls.
+export interface AssistantToolsContextValue {
+  registerTool: <T extends ChatToolName>(name: T, handler: ChatToolHandler<T>) => () => void;
+  executeTool: (call: ChatToolCall) => Promise<unknown>;
+}
+
+export const AssistantToolsContext = createContext<AssistantToolsContextValue | null>(null);
+
+export const useAssistantTools = (): AssistantToolsContextValue => {
+  const context = useContext(AssistantToolsContext);
+
+  if (!context) {
+    throw new Error('useAssistantTools must be used within an AssistantToolsProvider');
+  }
+
+  return context;
+};
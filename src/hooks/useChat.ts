@@ -0,0 +1,204 @@
+import { useState, useRef, useCallback } from 'react';
+import {
+  ChatMessage,
+  ChatProvider,
+  ChatToolCall,
+  ChatToolDefinition,
+  SiteContextSummary,
+  createAbortError,
+  isAbortError
+} from '@/utils/chat';
+
+// Upper bound on model → tool → model round trips per user message
+const MAX_TOOL_ROUNDS = 5;
+
+export interface ToolActivity {
+  id: string;
+  name: string;
+  arguments: string;
+  status: 'running' | 'done' | 'error';
+  error?: string;
+}
+
+export interface Message {
+  id: string;
+  type: 'user' | 'ai';
+  content: string;
+  timestamp: Date;
+  status?: 'streaming' | 'error' | 'cancelled';
+  error?: string;
+  context?: SiteContextSummary;
+  toolCalls?: ToolActivity[];
+}
+
+// Extra context sent with a single turn
+export interface TurnContext {
+  summary?: SiteContextSummary;
+  messages?: ChatMessage[]; // sent immediately before the user's message
+}
+
+interface UseChatOptions {
+  provider: ChatProvider;
+  systemPrompt: string;
+  initialMessages?: Message[];
+  tools?: ChatToolDefinition[];
+  executeTool?: (call: ChatToolCall) => Promise<unknown>;
+}
+
+interface UseChatResult {
+  messages: Message[];
+  isStreaming: boolean;
+  sendMessage: (content: string, turnContext?: TurnContext) => Promise<void>;
+  cancel: () => void;
+  replaceMessages: (messages: Message[]) => void; // e.g. when resuming a saved session
+}
+
+// Convert UI messages into provider history, leaving out failed replies
+const toChatHistory = (messages: Message[]): ChatMessage[] =>
+  messages
+    .filter(message => message.status !== 'error' && message.content.trim() !== '')
+    .map(message => ({
+      role: message.type === 'user' ? 'user' : 'assistant',
+      content: message.content
+    }));
+
+export const useChat = ({
+  provider,
+  systemPrompt,
+  initialMessages = [],
+  tools,
+  executeTool
+}: UseChatOptions): UseChatResult => {
+  const [messages, setMessages] = useState<Message[]>(initialMessages);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const messagesRef = useRef(messages);
+  const controllerRef = useRef<AbortController | null>(null);
+  messagesRef.current = messages;
+
+  const updateMessage = useCallback((id: string, update: (message: Message) => Message) => {
+    setMessages(prev => prev.map(message => message.id === id ? update(message) : message));
+  }, []);
+
+  const sendMessage = useCallback(async (content: string, turnContext: TurnContext = {}) => {
+    if (!content.trim() || controllerRef.current) return;
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    const now = Date.now();
+    const userMessage: Message = {
+      id: now.toString(),
+      type: 'user',
+      content,
+      timestamp: new Date()
+    };
+    const replyId = (now + 1).toString();
+
+    const history = toChatHistory(messagesRef.current);
+
+    setMessages(prev => [
+      ...prev,
+      userMessage,
+      { id: replyId, type: 'ai', content: '', timestamp: new Date(), status: 'streaming', context: turnContext.summary }
+    ]);
+    setIsStreaming(true);
+
+    const conversation: ChatMessage[] = [
+      { role: 'system', content: systemPrompt },
+      ...history,
+      ...(turnContext.messages || []),
+      { role: 'user', content }
+    ];
+
+    const setToolStatus = (callId: string, status: ToolActivity['status'], error?: string) =>
+      updateMessage(replyId, message => ({
+        ...message,
+        toolCalls: message.toolCalls?.map(activity =>
+          activity.id === callId ? { ...activity, status, error } : activity
+        )
+      }));
+
+    try {
+      for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+        const stream = provider.streamChat({
+          messages: conversation,
+          tools: executeTool ? tools : undefined,
+          signal: controller.signal
+        });
+
+        let roundText = '';
+        const calls: ChatToolCall[] = [];
+
+        for await (const event of stream) {
+          if (event.type === 'token') {
+            // Separate text from consecutive rounds into paragraphs
+            const text = roundText === '' && round > 0 ? `\n\n${event.text}` : event.text;
+            roundText += event.text;
+            updateMessage(replyId, message => ({
+              ...message,
+              content: message.content ? message.content + text : text.trimStart()
+            }));
+          } else if (event.type === 'tool_call') {
+            calls.push(event.call);
+          }
+        }
+
+        if (calls.length === 0 || !executeTool) break;
+
+        conversation.push({ role: 'assistant', content: roundText, toolCalls: calls });
+        updateMessage(replyId, message => ({
+          ...message,
+          toolCalls: [
+            ...(message.toolCalls || []),
+            ...calls.map(call => ({ id: call.id, name: call.name, arguments: call.arguments, status: 'running' as const }))
+          ]
+        }));
+
+        // Execute sequentially - later calls often depend on earlier ones (fly, then list)
+        for (const call of calls) {
+          if (controller.signal.aborted) throw createAbortError();
+
+          let result: unknown;
+          try {
+            result = await executeTool(call);
+            setToolStatus(call.id, 'done');
+          } catch (err) {
+            const message = err instanceof Error ? err.message : 'Tool failed';
+            result = { error: message };
+            setToolStatus(call.id, 'error', message);
+          }
+
+          conversation.push({ role: 'tool', toolCallId: call.id, content: JSON.stringify(result ?? null) });
+        }
+      }
+
+      updateMessage(replyId, message => ({ ...message, status: undefined, timestamp: new Date() }));
+    } catch (err) {
+      if (isAbortError(err)) {
+        updateMessage(replyId, message => ({ ...message, status: 'cancelled' }));
+      } else {
+        console.error('Chat request failed:', err);
+        updateMessage(replyId, message => ({
+          ...message,
+          status: 'error',
+          error: err instanceof Error ? err.message : 'The assistant could not respond'
+        }));
+      }
+    } finally {
+      controllerRef.current = null;
+      setIsStreaming(false);
+    }
+  }, [provider, systemPrompt, tools, executeTool, updateMessage]);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  const replaceMessages = useCallback((next: Message[]) => {
+    controllerRef.current?.abort();
+    messagesRef.current = next;
+    setMessages(next);
+  }, []);
+
+  return { messages, isStreaming, sendMessage, cancel, replaceMessages };
+};
@@ -0,0 +1,218 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Message } from '@/hooks/useChat';
+import {
+  ChatSession,
+  ChatSessionStore,
+  ChatSessionSummary,
+  chatSessionStore,
+  createSessionId,
+  createSessionTitle,
+  exportSession
+} from '@/utils/chat';
+
+type ActiveSession = Omit<ChatSession, 'messages' | 'updatedAt' | 'title'> & { title: string | null };
+
+interface UseChatSessionsOptions {
+  siteKey: string;
+  siteLabel: string | null;
+  messages: Message[];
+  isStreaming: boolean;
+  replaceMessages: (messages: Message[]) => void;
+  createInitialMessages: () => Message[];
+  store?: ChatSessionStore;
+}
+
+interface UseChatSessionsResult {
+  sessions: ChatSessionSummary[];
+  activeSessionId: string | null;
+  error: string | null;
+  newSession: () => void;
+  openSession: (id: string) => Promise<void>;
+  renameSession: (id: string, title: string) => Promise<void>;
+  deleteSession: (id: string) => Promise<void>;
+  downloadSession: (id: string) => Promise<void>;
+}
+
+const hasUserMessages = (messages: Message[]) => messages.some(message => message.type === 'user');
+
+// Persists the chat of the selected site and resumes the latest conversation
+// for a site when it is selected again
+export const useChatSessions = ({
+  siteKey,
+  siteLabel,
+  messages,
+  isStreaming,
+  replaceMessages,
+  createInitialMessages,
+  store = chatSessionStore
+}: UseChatSessionsOptions): UseChatSessionsResult => {
+  const [sessions, setSessions] = useState<ChatSessionSummary[]>([]);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const activeRef = useRef<ActiveSession | null>(null);
+  const messagesRef = useRef(messages);
+  const savedMessagesRef = useRef<Message[] | null>(null);
+  const switchIdRef = useRef(0);
+  const siteRef = useRef({ siteKey, siteLabel });
+  messagesRef.current = messages;
+  siteRef.current = { siteKey, siteLabel };
+
+  const reportError = useCallback((action: string, err: unknown) => {
+    console.warn(`Chat history: ${action} failed:`, err);
+    setError(`Could not ${action} chat history`);
+  }, []);
+
+  const refresh = useCallback(async () => {
+    try {
+      setSessions(await store.list());
+    } catch (err) {
+      reportError('load', err);
+    }
+  }, [store, reportError]);
+
+  // Save the active session unless nothing changed since it was loaded/saved
+  const persist = useCallback(async (current: Message[]) => {
+    const active = activeRef.current;
+    if (!active || current === savedMessagesRef.current || !hasUserMessages(current)) return;
+
+    savedMessagesRef.current = current;
+    if (active.title === null) active.title = createSessionTitle(current);
+
+    try {
+      await store.save({ ...active, title: active.title, updatedAt: new Date(), messages: current });
+      setError(null);
+      await refresh();
+    } catch (err) {
+      reportError('save', err);
+    }
+  }, [store, refresh, reportError]);
+
+  const activate = useCallback((session: ActiveSession, sessionMessages: Message[]) => {
+    activeRef.current = session;
+    savedMessagesRef.current = sessionMessages;
+    setActiveSessionId(session.id);
+    replaceMessages(sessionMessages);
+  }, [replaceMessages]);
+
+  const startNewSession = useCallback(() => {
+    const { siteKey: key, siteLabel: label } = siteRef.current;
+    activate(
+      { id: createSessionId(), siteKey: key, siteLabel: label, title: null, createdAt: new Date() },
+      createInitialMessages()
+    );
+  }, [activate, createInitialMessages]);
+
+  const resume = useCallback((session: ChatSession) => {
+    const { messages: sessionMessages, ...rest } = session;
+    activate(rest, sessionMessages);
+  }, [activate]);
+
+  // Switch to the most recent conversation of the newly selected site
+  useEffect(() => {
+    const switchId = ++switchIdRef.current;
+
+    const switchSite = async () => {
+      // Keep a reply interrupted by the switch
+      await persist(messagesRef.current);
+
+      try {
+        const all = await store.list();
+        if (switchId !== switchIdRef.current) return;
+        setSessions(all);
+
+        const latest = all.find(session => session.siteKey === siteKey);
+        const session = latest ? await store.get(latest.id) : null;
+        if (switchId !== switchIdRef.current) return;
+
+        if (session) {
+          resume(session);
+        } else {
+          startNewSession();
+        }
+      } catch (err) {
+        reportError('load', err);
+        if (switchId === switchIdRef.current) startNewSession();
+      }
+    };
+
+    switchSite();
+  }, [siteKey, store, persist, resume, startNewSession, reportError]);
+
+  // Autosave once a reply has finished
+  useEffect(() => {
+    if (!isStreaming) persist(messages);
+  }, [messages, isStreaming, persist]);
+
+  const newSession = useCallback(() => {
+    persist(messagesRef.current);
+    startNewSession();
+  }, [persist, startNewSession]);
+
+  const openSession = useCallback(async (id: string) => {
+    if (id === activeRef.current?.id) return;
+
+    await persist(messagesRef.current);
+    try {
+      const session = await store.get(id);
+      if (session) resume(session);
+    } catch (err) {
+      reportError('load', err);
+    }
+  }, [store, persist, resume, reportError]);
+
+  const renameSession = useCallback(async (id: string, title: string) => {
+    const trimmed = title.trim();
+    if (!trimmed) return;
+
+    if (activeRef.current?.id === id) activeRef.current.title = trimmed;
+
+    try {
+      const session = await store.get(id);
+      if (session) {
+        await store.save({ ...session, title: trimmed });
+        await refresh();
+      }
+    } catch (err) {
+      reportError('rename', err);
+    }
+  }, [store, refresh, reportError]);
+
+  const deleteSession = useCallback(async (id: string) => {
+    try {
+      await store.remove(id);
+      if (activeRef.current?.id === id) startNewSession();
+      await refresh();
+    } catch (err) {
+      reportError('delete', err);
+    }
+  }, [store, refresh, startNewSession, reportError]);
+
+  const downloadSession = useCallback(async (id: string) => {
+    try {
+      const session = await store.get(id);
+      if (!session) return;
+
+      const blob = new Blob([exportSession(session)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `chat-${session.createdAt.toISOString().slice(0, 10)}-${session.id}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      reportError('export', err);
+    }
+  }, [store, reportError]);
+
+  return {
+    sessions,
+    activeSessionId,
+    error,
+    newSession,
+    openSession,
+    renameSession,
+    deleteSession,
+    downloadSession
+  };
+};
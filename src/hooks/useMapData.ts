@@ -0,0 +1,32 @@
+import { createContext, useContext } from 'react';
+import { ViennaMapData } from '@/hooks/useViennaMapData';
+import { ViewportBuildingsResult } from '@/hooks/useViewportBuildings';
+import { ViennaZoning, FeatureCollection } from '@/types/vienna';
+import { MapBounds, MapViewState } from '@/utils/mapBounds';
+
+// Map data shared between the map, site information and chat panels, so every
+// panel works from the same loaded districts, zoning and viewport buildings
+export interface MapDataContextValue {
+  viennaData: ViennaMapData | null;
+  viennaLoading: boolean;
+  viennaError: string | null;
+  zoning: FeatureCollection<ViennaZoning>;
+  zoningLoading: boolean;
+  loadZoning: (bounds: MapBounds) => Promise<void>;
+  loadBuildingAges: (bounds: MapBounds) => Promise<void>;
+  viewport: ViewportBuildingsResult; // buildings carry construction years from any loaded building ages
+  mapView: MapViewState | null;
+  setMapView: (view: MapViewState) => void;
+}
+
+export const MapDataContext = createContext<MapDataContextValue | null>(null);
+
+export const useMapData = (): MapDataContextValue => {
+  const context = useContext(MapDataContext);
+
+  if (!context) {
+    throw new Error('useMapData must be used within a MapDataProvider');
+  }
+
+  return context;
+};
@@ -0,0 +1,37 @@
+import { useState, useCallback } from 'react';
+import { CacheNamespace, OfflineCache, OfflineCacheStatus, offlineCache } from '@/utils/offlineCache';
+
+interface UseOfflineCacheStatusResult {
+  status: OfflineCacheStatus | null;
+  loading: boolean;
+  refresh: () => Promise<void>;
+  clear: (namespace?: CacheNamespace) => Promise<void>;
+}
+
+// Usage of the persistent response cache, read on demand for the status view
+export const useOfflineCacheStatus = (cache: OfflineCache = offlineCache): UseOfflineCacheStatusResult => {
+  const [status, setStatus] = useState<OfflineCacheStatus | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      setStatus(await cache.status());
+    } catch (err) {
+      console.warn('Failed to read offline cache status:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [cache]);
+
+  const clear = useCallback(async (namespace?: CacheNamespace) => {
+    try {
+      await cache.clear(namespace);
+    } catch (err) {
+      console.warn('Failed to clear offline cache:', err);
+    }
+    await refresh();
+  }, [cache, refresh]);
+
+  return { status, loading, refresh, clear };
+};
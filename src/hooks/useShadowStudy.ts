@@ -0,0 +1,182 @@
+import { useState, useCallback, useMemo } from 'react';
+import { ViennaBuilding } from '@/types/vienna';
+import { DevelopmentPotential } from '@/utils/developmentPotential';
+import { geometryCentroid } from '@/utils/geometry';
+import { getBuildingHeights } from '@/utils/buildingHeight';
+import { getExistingHeight } from '@/utils/ghostMassing';
+import {
+  Facade,
+  ShadowCaster,
+  SunPosition,
+  compassDirection,
+  computeSunHours,
+  createLocalFrame,
+  getFacades,
+  getSunPosition,
+  projectShadow
+} from '@/utils/shadows';
+import { ShadowImage, renderShadowImage } from '@/utils/shadowImage';
+
+// Buildings further from the site than this (metres, centroid to centroid)
+// are ignored as shadow casters
+const CASTER_RADIUS = 150;
+// Facades of buildings this close to the site are analysed
+const NEIGHBOUR_RADIUS = 50;
+// Sun hours are sampled every this many minutes
+const STEP_MINUTES = 15;
+
+export const SHADOW_COLOR = '#1e293b';
+export const EXTENSION_SHADOW_COLOR = '#dc2626';
+
+export interface ShadowStudySettings {
+  date: string; // yyyy-mm-dd
+  startMinutes: number; // local time, minutes after midnight
+  endMinutes: number;
+  timeMinutes: number; // time the shadow layer shows, within the range
+}
+
+export interface FacadeSunHours extends Facade {
+  label: string; // building address or name
+  orientation: string; // compass direction the facade faces
+  hours: number; // direct sun within the time range
+  hoursWithExtension: number | null; // null without a possible extension
+}
+
+export interface ShadowStudyResult {
+  enabled: boolean;
+  setEnabled: (enabled: boolean) => void;
+  settings: ShadowStudySettings;
+  updateSettings: (changes: Partial<ShadowStudySettings>) => void;
+  sun: SunPosition;
+  shadowImage: ShadowImage | null; // shadows at the chosen time
+  facades: FacadeSunHours[]; // neighbouring facades, most sun lost first
+  extensionHeight: { base: number; top: number } | null; // metres, the permitted extension
+}
+
+interface UseShadowStudyOptions {
+  site: ViennaBuilding | null;
+  buildings: ViennaBuilding[];
+  potential: DevelopmentPotential | null;
+}
+
+const toDateInput = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Times are the browser's local time (CET/CEST for users in Vienna)
+const atMinutes = (date: string, minutes: number): Date => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day, 0, minutes);
+};
+
+const toCaster = (building: ViennaBuilding): ShadowCaster => ({
+  id: building.id,
+  geometry: building.geometry,
+  ...getBuildingHeights(building.properties)
+});
+
+// Shadows cast by the buildings around a selected site, and how many hours
+// of direct sun its neighbours' facades get with and without the extension
+// the zoning permits
+export const useShadowStudy = ({ site, buildings, potential }: UseShadowStudyOptions): ShadowStudyResult => {
+  const [enabled, setEnabled] = useState(false);
+  const [settings, setSettings] = useState<ShadowStudySettings>(() => ({
+    date: toDateInput(new Date()),
+    startMinutes: 8 * 60,
+    endMinutes: 18 * 60,
+    timeMinutes: 12 * 60
+  }));
+
+  const updateSettings = useCallback((changes: Partial<ShadowStudySettings>) => {
+    setSettings(prev => {
+      const next = { ...prev, ...changes };
+      next.endMinutes = Math.max(next.endMinutes, next.startMinutes + STEP_MINUTES);
+      next.timeMinutes = Math.min(Math.max(next.timeMinutes, next.startMinutes), next.endMinutes);
+      return next;
+    });
+  }, []);
+
+  const active = enabled && site !== null;
+  const frame = useMemo(() => site ? createLocalFrame(geometryCentroid(site.geometry)) : null, [site]);
+
+  // Buildings near the site, as casters, and the permitted extension on top of it
+  const { casters, neighbours, extension } = useMemo(() => {
+    if (!active || !site || !frame) return { casters: [], neighbours: [], extension: null };
+
+    const withDistance = buildings.map(building => {
+      const [x, y] = frame.toLocal(geometryCentroid(building.geometry));
+      return { building, distance: Math.hypot(x, y) };
+    });
+    const casters = withDistance
+      .filter(({ building, distance }) => distance <= CASTER_RADIUS || building.id === site.id)
+      .map(({ building }) => toCaster(building));
+    const neighbours = withDistance
+      .filter(({ building, distance }) => distance <= NEIGHBOUR_RADIUS && building.id !== site.id)
+      .map(({ building }) => building);
+
+    const top = potential?.permittedHeight.value ?? null;
+    const base = potential ? getExistingHeight(site, potential) : null;
+    const extension: ShadowCaster | null = top !== null && base !== null && top > base
+      ? { id: `${site.id}/extension`, geometry: site.geometry, minHeight: base, height: top }
+      : null;
+
+    return { casters, neighbours, extension };
+  }, [active, site, frame, buildings, potential]);
+
+  const facades = useMemo<FacadeSunHours[]>(() => {
+    if (!frame || neighbours.length === 0) return [];
+
+    const times: Date[] = [];
+    for (let minutes = settings.startMinutes; minutes < settings.endMinutes; minutes += STEP_MINUTES) {
+      times.push(atMinutes(settings.date, minutes + STEP_MINUTES / 2));
+    }
+    const options = { times, stepHours: STEP_MINUTES / 60 };
+
+    const facadeList = neighbours.flatMap(building => getFacades(building.id, building.geometry, frame));
+    const hours = computeSunHours(facadeList, casters, frame, options);
+    const hoursWithExtension = extension
+      ? computeSunHours(facadeList, [...casters, extension], frame, options)
+      : null;
+    const labels = new Map(neighbours.map(building =>
+      [building.id, building.properties.ADRESSE || building.properties.NAME || building.id]
+    ));
+
+    return facadeList
+      .map((facade, index) => ({
+        ...facade,
+        label: labels.get(facade.buildingId)!,
+        orientation: compassDirection(facade.facing),
+        hours: hours[index],
+        hoursWithExtension: hoursWithExtension ? hoursWithExtension[index] : null
+      }))
+      .sort((a, b) =>
+        (b.hours - (b.hoursWithExtension ?? b.hours)) - (a.hours - (a.hoursWithExtension ?? a.hours)) ||
+        a.hours - b.hours
+      );
+  }, [frame, neighbours, casters, extension, settings.date, settings.startMinutes, settings.endMinutes]);
+
+  const sun = useMemo(
+    () => getSunPosition(atMinutes(settings.date, settings.timeMinutes)),
+    [settings.date, settings.timeMinutes]
+  );
+
+  // The extension's shadow is drawn first, so only the part falling outside
+  // the existing shadows stays visible
+  const shadowImage = useMemo(() => {
+    if (!frame || casters.length === 0) return null;
+    return renderShadowImage([
+      { polygons: extension ? projectShadow(extension, sun, frame) : [], color: EXTENSION_SHADOW_COLOR },
+      { polygons: casters.flatMap(caster => projectShadow(caster, sun, frame)), color: SHADOW_COLOR }
+    ]);
+  }, [frame, casters, extension, sun]);
+
+  return {
+    enabled,
+    setEnabled,
+    settings,
+    updateSettings,
+    sun,
+    shadowImage,
+    facades,
+    extensionHeight: extension ? { base: extension.minHeight, top: extension.height } : null
+  };
+};
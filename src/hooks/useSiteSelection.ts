@@ -0,0 +1,37 @@
+import { createContext, useContext } from 'react';
+import { ViennaBuilding, ViennaZoning } from '@/types/vienna';
+import { DevelopmentPotential } from '@/utils/developmentPotential';
+
+// Request for the map to fly somewhere, optionally selecting the building there
+export interface FocusRequest {
+  id: number;
+  center: [number, number]; // [lng, lat]
+  zoom: number;
+  selectAtCenter: boolean;
+}
+
+// The currently selected site, shared by the map (click/highlight), the site
+// information panel and the chat assistant
+export interface SiteSelectionContextValue {
+  selectedBuilding: ViennaBuilding | null;
+  selectedZoning: ViennaZoning | null;
+  potential: DevelopmentPotential | null;
+  storeyHeight: number;
+  setStoreyHeight: (height: number) => void;
+  selectBuilding: (building: ViennaBuilding | null) => void;
+  clearSelection: () => void;
+  focusRequest: FocusRequest | null;
+  focusOn: (center: [number, number], options?: { zoom?: number; selectAtCenter?: boolean }) => void;
+}
+
+export const SiteSelectionContext = createContext<SiteSelectionContextValue | null>(null);
+
+export const useSiteSelection = (): SiteSelectionContextValue => {
+  const context = useContext(SiteSelectionContext);
+
+  if (!context) {
+    throw new Error('useSiteSelection must be used within a SiteSelectionProvider');
+  }
+
+  return context;
+};
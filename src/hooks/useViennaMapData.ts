@@ -1,64 +1,120 @@
 
-import { useState, useEffect } from 'react';
-
-interface ViennaBuilding {
-  type: 'Feature';
-  properties: {
-    ADRESSE?: string;
-    BAUWEISE?: string;
-    STOCKWERKE?: number;
-    BAUJAHR?: number;
-    NAME?: string;
-  };
-  geometry: {
-    type: 'Polygon';
-    coordinates: number[][][];
-  };
-}
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { ViennaBuilding, ViennaBuildingAge, ViennaZoning, ViennaDistrict, FeatureCollection } from '@/types/vienna';
+import {
+  MapBounds,
+  TileKey,
+  addBoundsBuffer,
+  boundsToKey,
+  buildingAgeCache,
+  isWithinVienna,
+  tileToBounds,
+  tileToKey,
+  tilesForBounds,
+  zoningTileCache,
+  ZONING_TILE_ZOOM
+} from '@/utils/mapBounds';
+import { ViennaOgdClient, viennaOgdClient } from '@/utils/viennaOgd';
+import { OfflineCache, CachedValue, offlineCache } from '@/utils/offlineCache';
+import { geometryHash } from '@/utils/geometry';
 
-interface ViennaZoning {
-  type: 'Feature';
-  properties: {
-    WIDMUNG?: string;
-    NUTZUNGSART?: string;
-    BAUKLASSE?: string;
-  };
-  geometry: {
-    type: 'Polygon';
-    coordinates: number[][][];
-  };
+export interface ViennaMapData {
+  buildings: FeatureCollection<ViennaBuilding>;
+  zoning: FeatureCollection<ViennaZoning>;
+  districts: FeatureCollection<ViennaDistrict>;
 }
 
-interface ViennaDistrict {
-  type: 'Feature';
-  properties: {
-    BEZIRK?: string;
-  };
-  geometry: {
-    type: 'Polygon';
-    coordinates: number[][][];
-  };
+export interface ViennaMapDataResult {
+  data: ViennaMapData | null;
+  loading: boolean;
+  error: string | null;
+  zoning: FeatureCollection<ViennaZoning>;
+  zoningLoading: boolean;
+  loadZoning: (bounds: MapBounds) => Promise<void>;
+  buildingAges: FeatureCollection<ViennaBuildingAge>;
+  loadBuildingAges: (bounds: MapBounds) => Promise<void>;
 }
 
-interface ViennaMapData {
-  buildings: {
-    type: 'FeatureCollection';
-    features: ViennaBuilding[];
-  };
-  zoning: {
-    type: 'FeatureCollection';
-    features: ViennaZoning[];
-  };
-  districts: {
-    type: 'FeatureCollection';
-    features: ViennaDistrict[];
+// WFS features held in memory per dataset. The oldest go first; they come
+// back from the bounds cache when their area is visited again.
+const MAX_MERGED_FEATURES = 20000;
+// Upper bound on zoning tiles loaded for one viewport (zoomed far out); the
+// tiles nearest to the centre are loaded first
+const MAX_ZONING_TILES = 24;
+
+// Features without an id (e.g. the sample data) are told apart by geometry
+const featureKey = (feature: { id?: string; geometry: { coordinates: unknown } }): string =>
+  feature.id ?? `geom:${geometryHash(feature.geometry.coordinates)}`;
+
+// State updater merging WFS features, skipping ones already present (by feature id)
+const mergeById = <T extends { id?: string; geometry: { coordinates: unknown } }>(incoming: T[]) =>
+  (prev: FeatureCollection<T>): FeatureCollection<T> => {
+    const keys = new Set(prev.features.map(featureKey));
+    const unique = incoming.filter(feature => {
+      const key = featureKey(feature);
+      if (keys.has(key)) return false;
+      keys.add(key);
+      return true;
+    });
+
+    if (unique.length === 0) return prev;
+    return { type: 'FeatureCollection', features: [...prev.features, ...unique].slice(-MAX_MERGED_FEATURES) };
   };
-}
 
-export const useViennaMapData = () => {
+// Read from the offline cache, treating an unavailable cache as a miss
+const readCached = async <T>(read: () => Promise<T>, fallback: T): Promise<T> => {
+  try {
+    return await read();
+  } catch (err) {
+    console.warn('Offline cache unavailable:', err);
+    return fallback;
+  }
+};
+
+const storeCached = (write: Promise<void>) => {
+  write.catch(err => console.warn('Failed to store response offline:', err));
+};
+
+// Zoning of one tile: a fresh offline copy, else the WFS, else an expired
+// offline copy. Null when none of them has it.
+const readZoningTile = async (
+  client: ViennaOgdClient,
+  cache: OfflineCache,
+  tile: TileKey
+): Promise<ViennaZoning[] | null> => {
+  const key = tileToKey(tile);
+  const stored = await readCached(() => cache.get<ViennaZoning[]>('zoning', key), null);
+  if (stored && !stored.expired) return stored.data;
+
+  try {
+    const { features } = await client.fetchZoning(tileToBounds(tile));
+    storeCached(cache.set('zoning', key, features, tileToBounds(tile)));
+    return features;
+  } catch (err) {
+    // Zoning is supplementary - keep the map usable and just log the failure
+    console.warn('Failed to load zoning plan:', err);
+    return stored ? stored.data : null;
+  }
+};
+
+export const useViennaMapData = (
+  client: ViennaOgdClient = viennaOgdClient,
+  cache: OfflineCache = offlineCache
+): ViennaMapDataResult => {
   const [data, setData] = useState<ViennaMapData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [zoning, setZoning] = useState<FeatureCollection<ViennaZoning>>({
+    type: 'FeatureCollection',
+    features: []
+  });
+  const [zoningLoading, setZoningLoading] = useState(false);
+  const zoningLoadingRef = useRef<Set<string>>(new Set());
+  const [buildingAges, setBuildingAges] = useState<FeatureCollection<ViennaBuildingAge>>({
+    type: 'FeatureCollection',
+    features: []
+  });
+  const buildingAgesLoadingRef = useRef<Set<string>>(new Set());
 
   useEffect(() => {
     const loadViennaData = async () => {
@@ -68,24 +124,37 @@ export const useViennaMapData = () => {
         
         console.log('Loading Vienna map data from official sources...');
         
-        // Vienna's official WFS endpoints (for districts and zoning only - buildings handled by viewport hook)
-        const districtUrl = 'https://data.wien.gv.at/daten/geo?service=WFS&request=GetFeature&version=1.1.0&typeName=ogdwien:BEZIRKSGRENZEOGD&srsName=EPSG:4326&outputFormat=json';
-        
+        // Vienna's official WFS endpoints (districts up front, zoning by viewport - buildings handled by viewport hook)
         try {
           console.log('Loading Vienna district data...');
           
-          const districtResponse = await fetch(districtUrl);
-          if (districtResponse.ok) {
-            const districtData = await districtResponse.json();
-            console.log('District data loaded:', districtData.features?.length || 0);
-            
-            setData({
-              buildings: { type: 'FeatureCollection' as const, features: [] }, // Empty - handled by viewport hook
-              zoning: { type: 'FeatureCollection' as const, features: [] }, // Empty for now
-              districts: districtData
-            });
-            return;
+          // Districts rarely change: use the offline copy until it expires,
+          // and an expired one when the WFS cannot be reached
+          const cached = await readCached(
+            () => cache.get<FeatureCollection<ViennaDistrict>>('districts', 'all'),
+            null
+          );
+          let districtData: FeatureCollection<ViennaDistrict>;
+          if (cached && !cached.expired) {
+            districtData = cached.data;
+          } else {
+            try {
+              districtData = await client.fetchDistricts();
+              storeCached(cache.set('districts', 'all', districtData));
+            } catch (err) {
+              if (!cached) throw err;
+              console.warn('District request failed, using offline copy:', err);
+              districtData = cached.data;
+            }
           }
+          console.log('District data loaded:', districtData.features.length);
+          
+          setData({
+            buildings: { type: 'FeatureCollection' as const, features: [] }, // Empty - handled by viewport hook
+            zoning: { type: 'FeatureCollection' as const, features: [] }, // Empty - loaded by viewport via loadZoning
+            districts: districtData
+          });
+          return;
         } catch (err) {
           console.warn('Vienna district data loading failed:', err);
         }
@@ -97,9 +166,13 @@ export const useViennaMapData = () => {
             features: [
               {
                 type: 'Feature',
+                id: 'sample/1',
                 properties: {
                   ADRESSE: 'Stephansplatz 3, 1010 Wien',
-                  BAUWEISE: 'Gotisch',
+                  STRASSE: 'Stephansplatz',
+                  HAUSNUMMER: '3',
+                  PLZ: '1010',
+                  GEBAEUDETYP: 'cathedral',
                   STOCKWERKE: 1,
                   BAUJAHR: 1147,
                   NAME: 'Stephansdom'
@@ -117,9 +190,12 @@ export const useViennaMapData = () => {
               },
               {
                 type: 'Feature',
+                id: 'sample/2',
                 properties: {
-                  ADRESSE: 'Graben 21, 1010 Wien', 
-                  BAUWEISE: 'Barock',
+                  ADRESSE: 'Graben 21, 1010 Wien',
+                  STRASSE: 'Graben',
+                  HAUSNUMMER: '21',
+                  PLZ: '1010',
                   STOCKWERKE: 4,
                   BAUJAHR: 1720
                 },
@@ -136,9 +212,10 @@ export const useViennaMapData = () => {
               },
               {
                 type: 'Feature',
+                id: 'sample/3',
                 properties: {
                   ADRESSE: 'Hofburg, 1010 Wien',
-                  BAUWEISE: 'Barock',
+                  GEBAEUDETYP: 'palace',
                   STOCKWERKE: 3,
                   BAUJAHR: 1279
                 },
@@ -205,6 +282,7 @@ export const useViennaMapData = () => {
         await new Promise(resolve => setTimeout(resolve, 1000));
         
         setData(mockData);
+        setZoning(mergeById(mockData.zoning.features));
         console.log('Vienna map data loaded successfully');
       } catch (err) {
         console.error('Failed to load Vienna map data:', err);
@@ -215,7 +293,93 @@ export const useViennaMapData = () => {
     };
 
     loadViennaData();
-  }, []);
+  }, [client, cache]);
+
+  // Load zoning polygons per tile, the way viewport buildings are loaded, so
+  // a pan only requests the tiles that are new
+  const loadZoning = useCallback(async (bounds: MapBounds) => {
+    if (!isWithinVienna(bounds)) return;
+
+    const tiles = tilesForBounds(addBoundsBuffer(bounds, 0.3), ZONING_TILE_ZOOM, MAX_ZONING_TILES);
+    const cached: ViennaZoning[] = [];
+    const missing: TileKey[] = [];
+    for (const tile of tiles) {
+      const key = tileToKey(tile);
+      const features = zoningTileCache.get(key);
+      if (features) cached.push(...features);
+      else if (!zoningLoadingRef.current.has(key)) missing.push(tile);
+    }
+
+    if (cached.length > 0) setZoning(mergeById(cached));
+    if (missing.length === 0) return;
+
+    missing.forEach(tile => zoningLoadingRef.current.add(tileToKey(tile)));
+    setZoningLoading(true);
+
+    await Promise.all(missing.map(async tile => {
+      const key = tileToKey(tile);
+      try {
+        const features = await readZoningTile(client, cache, tile);
+        if (features) {
+          zoningTileCache.set(key, features);
+          setZoning(mergeById(features));
+        }
+      } finally {
+        zoningLoadingRef.current.delete(key);
+        setZoningLoading(zoningLoadingRef.current.size > 0);
+      }
+    }));
+  }, [client, cache]);
+
+  // Construction periods from the Gebäudealter dataset, loaded like zoning but
+  // only while something needs them (e.g. colouring by construction period)
+  const loadBuildingAges = useCallback(async (bounds: MapBounds) => {
+    if (!isWithinVienna(bounds)) return;
+
+    const bufferedBounds = addBoundsBuffer(bounds, 0.3);
+    const boundsKey = boundsToKey(bufferedBounds);
+
+    if (buildingAgesLoadingRef.current.has(boundsKey)) return;
+
+    const cachedData = buildingAgeCache.get(bufferedBounds);
+    if (cachedData) {
+      setBuildingAges(mergeById(cachedData.features));
+      return;
+    }
+
+    buildingAgesLoadingRef.current.add(boundsKey);
+
+    try {
+      const stored = await readCached(
+        () => cache.get<FeatureCollection<ViennaBuildingAge>>('buildingAges', boundsKey),
+        null
+      );
+      if (stored && !stored.expired) {
+        buildingAgeCache.set(bufferedBounds, stored.data);
+        setBuildingAges(mergeById(stored.data.features));
+        return;
+      }
+
+      const ageData = await client.fetchBuildingAges(bufferedBounds);
+      buildingAgeCache.set(bufferedBounds, ageData);
+      storeCached(cache.set('buildingAges', boundsKey, ageData, bufferedBounds));
+
+      setBuildingAges(mergeById(ageData.features));
+    } catch (err) {
+      // Building ages only enrich OSM buildings - log and fall back to offline data
+      console.warn('Failed to load building ages:', err);
+
+      const overlapping = await readCached<CachedValue<FeatureCollection<ViennaBuildingAge>>[]>(
+        () => cache.findOverlapping('buildingAges', bufferedBounds),
+        []
+      );
+      if (overlapping.length > 0) {
+        setBuildingAges(mergeById(overlapping.flatMap(entry => entry.data.features)));
+      }
+    } finally {
+      buildingAgesLoadingRef.current.delete(boundsKey);
+    }
+  }, [client, cache]);
 
-  return { data, loading, error };
+  return { data, loading, error, zoning, zoningLoading, loadZoning, buildingAges, loadBuildingAges };
 };
@@ -1,189 +1,332 @@
 import { useState, useCallback, useRef } from 'react';
-import { MapBounds, boundsToOverpassBbox, addBoundsBuffer, isWithinVienna, buildingCache } from '@/utils/mapBounds';
-
-interface ViennaBuilding {
-  type: 'Feature';
-  properties: {
-    ADRESSE?: string;
-    BAUWEISE?: string;
-    STOCKWERKE?: number;
-    BAUJAHR?: number;
-    NAME?: string;
-  };
-  geometry: {
-    type: 'Polygon';
-    coordinates: number[][][];
-  };
+import {
+  MapBounds,
+  TileKey,
+  addBoundsBuffer,
+  isWithinVienna,
+  buildingTileCache,
+  countTilesForBounds,
+  tilesForBounds,
+  tilesToBounds,
+  tileForPoint,
+  tileToKey,
+  tileToBounds,
+  BUILDING_TILE_ZOOM,
+  MAX_TILES_FOR_BOUNDS
+} from '@/utils/mapBounds';
+import { ViennaBuilding, FeatureClass, FeatureCollection, FeatureKinds, MapFeature } from '@/types/vienna';
+import { DEFAULT_FEATURE_CLASSES, FEATURE_CLASS_PRESETS, buildOverpassQuery } from '@/utils/overpassQuery';
+import { OverpassLoadProgress, OverpassLoader, overpassLoader } from '@/utils/overpassLoader';
+import { FeatureDiagnostics } from '@/utils/geometryValidation';
+import { geometryCentroid } from '@/utils/geometry';
+import { BuildingStore, DEFAULT_MAX_FEATURES } from '@/utils/buildingStore';
+import { CachedValue, OfflineCache, offlineCache } from '@/utils/offlineCache';
+import { QueuedRequest, RequestQueue } from '@/utils/requestQueue';
+
+// Upper bound on tiles fetched for one viewport (zoomed far out); the tiles
+// nearest to the centre are loaded first
+const MAX_TILES_PER_LOAD = 48;
+// Tiles per Overpass request, so each request covers a small area that can be
+// cancelled once it leaves the viewport
+const TILES_PER_REQUEST = 12;
+// Overpass rejects clients with too many parallel queries
+const MAX_CONCURRENT_REQUESTS = 2;
+
+interface TileRequest {
+  tiles: TileKey[];
+  classes: FeatureClass[];
+  centre: [number, number];
+  generation: number; // cache generation the request was made for
 }
 
-interface ViewportBuildingsResult {
-  buildings: {
-    type: 'FeatureCollection';
-    features: ViennaBuilding[];
-  };
+// The features of one class within one tile, the unit of loading and caching
+interface LoadedTile {
+  featureClass: FeatureClass;
+  tile: TileKey;
+  features: MapFeature[];
+}
+
+interface UseViewportBuildingsOptions {
+  maxFeatures?: number; // feature budget of the in-memory store
+  cache?: OfflineCache; // persistent tile cache
+  loader?: OverpassLoader; // fetches and converts queries (in a worker by default)
+}
+
+// A request waiting for an Overpass mirror to accept queries again
+export interface BuildingRetryState {
+  requestId: number;
+  retryAt: number; // timestamp
+  attempt: number;
+  reason: string;
+}
+
+export interface BuildingLoadProgress extends OverpassLoadProgress {
+  requestId: number;
+}
+
+export type FeatureCollectionsByClass = {
+  [K in FeatureClass]: FeatureCollection<FeatureKinds[K]>;
+};
+
+export interface ViewportBuildingsResult {
+  buildings: FeatureCollection<ViennaBuilding>; // every building held in memory
+  visibleFeatures: FeatureCollectionsByClass; // the current viewport only, one map source per class
+  featureClasses: FeatureClass[]; // classes being loaded
+  setFeatureClassEnabled: (featureClass: FeatureClass, enabled: boolean) => void;
   loading: boolean;
+  pendingRequests: number; // queued or running Overpass requests
+  retry: BuildingRetryState | null;
+  progress: BuildingLoadProgress | null; // of the most recently active request
   error: string | null;
+  diagnostics: FeatureDiagnostics[]; // footprints repaired or dropped while loading
   loadBuildings: (bounds: MapBounds) => Promise<void>;
   clearCache: () => void;
   cacheInfo: {
     size: number;
     totalBuildings: number;
+    visibleBuildings: number;
+    maxFeatures: number;
   };
 }
 
-export const useViewportBuildings = (): ViewportBuildingsResult => {
-  const [buildings, setBuildings] = useState<{
-    type: 'FeatureCollection';
-    features: ViennaBuilding[];
-  }>({
-    type: 'FeatureCollection',
-    features: []
-  });
-  const [loading, setLoading] = useState(false);
+const layerTileKey = (featureClass: FeatureClass, tile: TileKey): string =>
+  `${featureClass}:${tileToKey(tile)}`;
+
+const featureClassOf = (feature: MapFeature): FeatureClass =>
+  feature.properties.FEATURE_CLASS || 'building';
+
+const isBuilding = (feature: MapFeature): feature is ViennaBuilding => featureClassOf(feature) === 'building';
+
+// Each feature belongs to the tile containing its centroid, so features on
+// tile borders are not duplicated when neighbouring tiles load
+const groupByTile = (features: MapFeature[], tiles: TileKey[], classes: FeatureClass[]): LoadedTile[] => {
+  const groups = new Map<string, LoadedTile>();
+  classes.forEach(featureClass => tiles.forEach(tile =>
+    groups.set(layerTileKey(featureClass, tile), { featureClass, tile, features: [] })
+  ));
+
+  for (const feature of features) {
+    const [lng, lat] = geometryCentroid(feature.geometry);
+    const tile = tileForPoint(lng, lat, BUILDING_TILE_ZOOM);
+    groups.get(layerTileKey(featureClassOf(feature), tile))?.features.push(feature);
+  }
+
+  return [...groups.values()];
+};
+
+// Tiles stored by earlier sessions. A broken cache only costs a download.
+const readStoredTiles = async (
+  cache: OfflineCache,
+  tiles: TileKey[],
+  classes: FeatureClass[]
+): Promise<Map<string, CachedValue<MapFeature[]>>> => {
+  const stored = new Map<string, CachedValue<MapFeature[]>>();
+
+  try {
+    await Promise.all(classes.flatMap(featureClass => tiles.map(async tile => {
+      const key = layerTileKey(featureClass, tile);
+      const value = await cache.get<MapFeature[]>('buildings', key);
+      if (value) stored.set(key, value);
+    })));
+  } catch (err) {
+    console.warn('Offline building cache unavailable:', err);
+  }
+
+  return stored;
+};
+
+const emptyCollections = (): FeatureCollectionsByClass => ({
+  building: { type: 'FeatureCollection', features: [] },
+  buildingPart: { type: 'FeatureCollection', features: [] },
+  landuse: { type: 'FeatureCollection', features: [] },
+  poi: { type: 'FeatureCollection', features: [] }
+});
+
+const buildingCollection = (store: BuildingStore): FeatureCollection<ViennaBuilding> => ({
+  type: 'FeatureCollection',
+  features: store.all().filter(isBuilding)
+});
+
+// Features around the view, one collection per class
+const visibleCollections = (store: BuildingStore, view: MapBounds | null): FeatureCollectionsByClass => {
+  const collections = emptyCollections();
+  if (view) {
+    store.query(addBoundsBuffer(view, 0.1))
+      .forEach(feature => (collections[featureClassOf(feature)].features as MapFeature[]).push(feature));
+  }
+  return collections;
+};
+
+const boundsCentre = (bounds: MapBounds): [number, number] => [
+  (bounds.west + bounds.east) / 2,
+  (bounds.south + bounds.north) / 2
+];
+
+const tilesCentre = (tiles: TileKey[]): [number, number] => {
+  const centres = tiles.map(tile => boundsCentre(tileToBounds(tile)));
+  return [
+    centres.reduce((sum, [lng]) => sum + lng, 0) / centres.length,
+    centres.reduce((sum, [, lat]) => sum + lat, 0) / centres.length
+  ];
+};
+
+// Queued requests nearest to the viewport centre start first
+const byDistanceTo = (bounds: MapBounds) => {
+  const [lng, lat] = boundsCentre(bounds);
+  const distance = (request: TileRequest) => Math.hypot(request.centre[0] - lng, request.centre[1] - lat);
+  return (a: TileRequest, b: TileRequest) => distance(a) - distance(b);
+};
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+};
+
+export const useViewportBuildings = ({
+  maxFeatures = DEFAULT_MAX_FEATURES,
+  cache = offlineCache,
+  loader = overpassLoader
+}: UseViewportBuildingsOptions = {}): ViewportBuildingsResult => {
+  const storeRef = useRef(new BuildingStore());
+  // Snapshots of the mutable store, taken whenever it or the view changes
+  const [buildings, setBuildings] = useState<FeatureCollection<ViennaBuilding>>(
+    () => ({ type: 'FeatureCollection', features: [] })
+  );
+  const [visibleFeatures, setVisibleFeatures] = useState<FeatureCollectionsByClass>(emptyCollections);
+  const [featureClasses, setFeatureClasses] = useState<FeatureClass[]>(DEFAULT_FEATURE_CLASSES);
+  const [pendingRequests, setPendingRequests] = useState(0);
+  const [retry, setRetry] = useState<BuildingRetryState | null>(null);
+  const [progress, setProgress] = useState<BuildingLoadProgress | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const loadingRef = useRef<Set<string>>(new Set());
-
-  // Helper functions for better building classification
-  const getBuildingType = useCallback((tags: any): string => {
-    if (tags.building && tags.building !== 'yes') return tags.building;
-    if (tags['building:part']) return tags['building:part'];
-    if (tags.landuse) return `${tags.landuse} area`;
-    if (tags.man_made) return tags.man_made;
-    if (tags.amenity) return tags.amenity;
-    if (tags.leisure) return tags.leisure;
-    if (tags.shop) return `shop (${tags.shop})`;
-    if (tags.office) return 'office';
-    if (tags.tourism) return tags.tourism;
-    if (tags.historic) return tags.historic;
-    if (tags.aeroway) return tags.aeroway;
-    if (tags.railway) return tags.railway;
-    if (tags.public_transport) return tags.public_transport;
-    if (tags.craft) return tags.craft;
-    if (tags.industrial) return tags.industrial;
-    return 'structure';
-  }, []);
-  
-  const getBuildingTypeLabel = useCallback((tags: any): string => {
-    if (tags.building && tags.building !== 'yes') return `${tags.building} building`;
-    if (tags['building:part']) return 'building part';
-    if (tags.landuse) return `${tags.landuse} area`;
-    if (tags.man_made) return tags.man_made;
-    if (tags.amenity) return tags.amenity;
-    if (tags.leisure) return tags.leisure;
-    if (tags.shop) return 'shop';
-    if (tags.office) return 'office building';
-    return 'Vienna Structure';
+  const [diagnostics, setDiagnostics] = useState<FeatureDiagnostics[]>([]);
+  const viewBoundsRef = useRef<MapBounds | null>(null);
+  const featureClassesRef = useRef(featureClasses);
+  const queueRef = useRef(new RequestQueue<TileRequest>(MAX_CONCURRENT_REQUESTS, setPendingRequests));
+  // Queued or running requests by class and tile, so overlapping loads share them
+  const pendingRef = useRef<Map<string, QueuedRequest<TileRequest>>>(new Map());
+  // Bumped by clearCache, so responses requested before it are dropped
+  const generationRef = useRef(0);
+
+  const refreshVisible = useCallback(() => {
+    setVisibleFeatures(visibleCollections(storeRef.current, viewBoundsRef.current));
   }, []);
 
-  // Convert OSM data to GeoJSON format with proper polygon validation
-  const convertOSMToGeoJSON = useCallback((data: any): ViennaBuilding[] => {
-    const validBuildings: ViennaBuilding[] = [];
-    
-    data.elements?.forEach(element => {
-      // Skip elements without geometry or tags
-      if (!element.geometry || !element.tags) return;
-      
-      // Check if element has meaningful structure tags
-      const tags = element.tags;
-      const hasStructureTag = tags.building || 
-             tags['building:part'] || 
-             tags.landuse || 
-             tags.man_made || 
-             tags.amenity || 
-             tags.leisure || 
-             tags.shop || 
-             tags.office ||
-             tags.tourism ||
-             tags.historic ||
-             tags.aeroway ||
-             tags.railway ||
-             tags.public_transport ||
-             tags.craft ||
-             tags.industrial;
-             
-      if (!hasStructureTag && !(element.type === 'way' && element.geometry.length > 3)) return;
-      
-      let coords: number[][] = [];
-      
+  const refreshStore = useCallback(() => {
+    setBuildings(buildingCollection(storeRef.current));
+    refreshVisible();
+  }, [refreshVisible]);
+
+  // Keep the store within budget, evicting tiles far from the current view
+  const enforceBudget = useCallback((): boolean => {
+    if (!viewBoundsRef.current) return false;
+
+    const evicted = storeRef.current.evict(addBoundsBuffer(viewBoundsRef.current, 0.3), maxFeatures);
+    return evicted.length > 0;
+  }, [maxFeatures]);
+
+  const addTiles = useCallback((tiles: LoadedTile[]) => {
+    // A class may have been switched off while its tiles were loading
+    const wanted = tiles.filter(({ featureClass }) => featureClassesRef.current.includes(featureClass));
+    wanted.forEach(({ featureClass, tile, features }) =>
+      storeRef.current.addTile(layerTileKey(featureClass, tile), tileToBounds(tile), features)
+    );
+    enforceBudget();
+    refreshStore();
+  }, [enforceBudget, refreshStore]);
+
+  const fetchTiles = useCallback(async (request: QueuedRequest<TileRequest>) => {
+    const { tiles: missing, classes, generation } = request.meta;
+    // Aborted requests and those from before a cache clear must not add tiles
+    const isStale = () => request.signal.aborted || generation !== generationRef.current;
+
+    setError(null);
+
+    try {
+      // Fresh tiles from the offline cache need no request; expired ones are
+      // only used when the request fails
+      const stored = await readStoredTiles(cache, missing, classes);
+      if (isStale()) return;
+
+      const fresh: LoadedTile[] = [];
+      const toFetch: TileKey[] = [];
+      for (const tile of missing) {
+        const values = classes.map(featureClass => ({ featureClass, value: stored.get(layerTileKey(featureClass, tile)) }));
+        if (values.every(({ value }) => value && !value.expired)) {
+          values.forEach(({ featureClass, value }) => fresh.push({ featureClass, tile, features: value!.data }));
+        } else {
+          toFetch.push(tile);
+        }
+      }
+
+      if (fresh.length > 0) {
+        fresh.forEach(({ featureClass, tile, features }) => buildingTileCache.set(layerTileKey(featureClass, tile), features));
+        addTiles(fresh);
+      }
+
+      if (toFetch.length === 0) return;
+
       try {
-        if (element.type === 'way' && Array.isArray(element.geometry)) {
-          coords = element.geometry
-            .filter(node => node && typeof node.lon === 'number' && typeof node.lat === 'number')
-            .map(node => [node.lon, node.lat]);
-        } else if (element.type === 'relation' && element.members) {
-          // Handle multipolygon relations - take the first outer way
-          const outerWays = element.members.filter(member => 
-            member.type === 'way' && 
-            member.role === 'outer' && 
-            member.geometry && 
-            Array.isArray(member.geometry)
-          );
-          
-          if (outerWays.length > 0) {
-            coords = outerWays[0].geometry
-              .filter(node => node && typeof node.lon === 'number' && typeof node.lat === 'number')
-              .map(node => [node.lon, node.lat]);
+        console.log(`Loading ${classes.join(', ')} for ${toFetch.length} tiles`);
+
+        const query = buildOverpassQuery(classes, tilesToBounds(toFetch));
+        const { features: newFeatures, diagnostics: newDiagnostics } = await loader.load(query, {
+          signal: request.signal,
+          onRetry: ({ attempt, delayMs, reason }) => {
+            if (delayMs > 0 && !isStale()) {
+              setRetry({ requestId: request.id, retryAt: Date.now() + delayMs, attempt, reason });
+            }
+          },
+          onProgress: update => {
+            if (!isStale()) setProgress({ ...update, requestId: request.id });
           }
+        });
+        if (isStale()) return;
+
+        console.log(`Loaded ${newFeatures.length} features for ${toFetch.length} tiles`);
+
+        if (newDiagnostics.length > 0) {
+          setDiagnostics(prev => {
+            const known = new Set(prev.map(entry => entry.featureId));
+            return [...prev, ...newDiagnostics.filter(entry => !known.has(entry.featureId))];
+          });
         }
-        
-        // Validate polygon geometry
-        if (coords.length < 4) return; // Need at least 4 points for a valid polygon
-        
-        // Check for valid coordinate ranges (Vienna bounds roughly)
-        const invalidCoords = coords.some(coord => 
-          !Array.isArray(coord) || 
-          coord.length !== 2 || 
-          typeof coord[0] !== 'number' || 
-          typeof coord[1] !== 'number' ||
-          coord[0] < 16.0 || coord[0] > 17.0 || // Rough longitude bounds for Vienna
-          coord[1] < 48.0 || coord[1] > 48.5    // Rough latitude bounds for Vienna
-        );
-        
-        if (invalidCoords) {
-          console.warn('Invalid coordinates found, skipping polygon');
-          return;
-        }
-        
-        // Ensure polygon is closed
-        const firstCoord = coords[0];
-        const lastCoord = coords[coords.length - 1];
-        if (firstCoord[0] !== lastCoord[0] || firstCoord[1] !== lastCoord[1]) {
-          coords.push([firstCoord[0], firstCoord[1]]);
-        }
-        
-        // Check for self-intersection (basic check)
-        if (coords.length > 100) {
-          console.warn('Polygon too complex, skipping');
-          return;
+
+        // Cache per class and tile, including empty tiles, so later hits are exact
+        const loaded = groupByTile(newFeatures, toFetch, classes);
+        loaded.forEach(({ featureClass, tile, features }) => {
+          const key = layerTileKey(featureClass, tile);
+          buildingTileCache.set(key, features);
+          cache.set('buildings', key, features, tileToBounds(tile))
+            .catch(err => console.warn('Failed to store buildings offline:', err));
+        });
+        addTiles(loaded);
+
+      } catch (err) {
+        if (isStale()) return;
+        console.error('Failed to load viewport buildings:', err);
+
+        // Offline: fall back to expired tiles from earlier sessions
+        const fallback: LoadedTile[] = toFetch.flatMap(tile => classes.flatMap(featureClass => {
+          const value = stored.get(layerTileKey(featureClass, tile));
+          return value ? [{ featureClass, tile, features: value.data }] : [];
+        }));
+        if (fallback.length > 0) {
+          addTiles(fallback);
+          setError(`Offline – showing cached data for ${fallback.length} of ${toFetch.length * classes.length} tiles`);
+        } else {
+          setError(err instanceof Error ? err.message : 'Failed to load buildings');
         }
-        
-        const building: ViennaBuilding = {
-          type: 'Feature',
-          properties: {
-            ADRESSE: tags['addr:street'] && tags['addr:housenumber'] 
-              ? `${tags['addr:street']} ${tags['addr:housenumber']}` 
-              : tags.name || getBuildingTypeLabel(tags),
-            BAUWEISE: getBuildingType(tags),
-            STOCKWERKE: tags['building:levels'] || tags.levels ? 
-              parseInt(tags['building:levels'] || tags.levels) : undefined,
-            NAME: tags.name || undefined
-          },
-          geometry: {
-            type: 'Polygon',
-            coordinates: [coords]
-          }
-        };
-        
-        validBuildings.push(building);
-        
-      } catch (error) {
-        console.warn('Error processing building geometry:', error);
       }
-    });
-    
-    console.log(`Processed ${data.elements?.length || 0} elements, created ${validBuildings.length} valid buildings`);
-    return validBuildings;
-  }, [getBuildingType, getBuildingTypeLabel]);
+    } finally {
+      setRetry(prev => prev?.requestId === request.id ? null : prev);
+      setProgress(prev => prev?.requestId === request.id ? null : prev);
+      classes.forEach(featureClass => missing.forEach(tile => {
+        const key = layerTileKey(featureClass, tile);
+        if (pendingRef.current.get(key) === request) pendingRef.current.delete(key);
+      }));
+    }
+  }, [addTiles, cache, loader]);
 
   const loadBuildings = useCallback(async (bounds: MapBounds) => {
     // Only load if within Vienna area
@@ -192,134 +335,137 @@ export const useViewportBuildings = (): ViewportBuildingsResult => {
       return;
     }
 
+    // Zoomed out too far for buildings; keep what is loaded
+    if (countTilesForBounds(bounds, BUILDING_TILE_ZOOM) > MAX_TILES_FOR_BOUNDS) return;
+
+    viewBoundsRef.current = bounds;
+    // Only the view moved unless tiles had to be evicted
+    if (enforceBudget()) refreshStore();
+    else refreshVisible();
+
     // Add buffer to preload nearby areas
-    const bufferedBounds = addBoundsBuffer(bounds, 0.3);
-    const bbox = boundsToOverpassBbox(bufferedBounds);
-    const boundsKey = `${bbox}`;
+    const wanted = tilesForBounds(addBoundsBuffer(bounds, 0.3), BUILDING_TILE_ZOOM);
+    const wantedKeys = new Set(wanted.map(tileToKey));
+    const classes = featureClassesRef.current;
 
-    // Check if already loading this area
-    if (loadingRef.current.has(boundsKey)) {
-      console.log('Already loading this area:', boundsKey);
-      return;
+    // Cancel requests whose whole area has left the viewport or whose classes
+    // were all switched off, and start the remaining queued ones nearest to
+    // the new centre first
+    const queue = queueRef.current;
+    const cancelled = queue.abortWhere(request =>
+      !request.tiles.some(tile => wantedKeys.has(tileToKey(tile))) ||
+      !request.classes.some(featureClass => classes.includes(featureClass))
+    );
+    if (cancelled > 0) {
+      for (const [key, request] of pendingRef.current) {
+        if (request.signal.aborted) pendingRef.current.delete(key);
+      }
     }
+    queue.setPriority(byDistanceTo(bounds));
 
-    // Check cache first
-    const cachedData = buildingCache.get(bufferedBounds);
-    if (cachedData) {
-      console.log('Using cached building data for bounds:', boundsKey);
-      setBuildings(prev => ({
-        type: 'FeatureCollection',
-        features: [...prev.features, ...cachedData.features]
-      }));
-      return;
+    // Skip tiles already shown, wait for those being fetched and take the
+    // rest from the cache where possible
+    const cached: LoadedTile[] = [];
+    const inFlight = new Set<Promise<void>>();
+    // Tiles to fetch, grouped by the classes they are missing
+    const missing = new Map<string, { classes: FeatureClass[]; tiles: TileKey[] }>();
+    let missingCount = 0;
+    for (const tile of wanted) {
+      const missingClasses: FeatureClass[] = [];
+
+      for (const featureClass of classes) {
+        const key = layerTileKey(featureClass, tile);
+        if (storeRef.current.hasTile(key)) continue;
+
+        const pending = pendingRef.current.get(key);
+        if (pending) {
+          inFlight.add(pending.promise);
+          continue;
+        }
+
+        const cachedFeatures = buildingTileCache.get(key);
+        if (cachedFeatures) {
+          cached.push({ featureClass, tile, features: cachedFeatures });
+        } else {
+          missingClasses.push(featureClass);
+        }
+      }
+
+      if (missingClasses.length === 0 || missingCount >= MAX_TILES_PER_LOAD) continue;
+      missingCount++;
+      const group = missingClasses.join(',');
+      if (!missing.has(group)) missing.set(group, { classes: missingClasses, tiles: [] });
+      missing.get(group)!.tiles.push(tile);
     }
 
-    setLoading(true);
-    setError(null);
-    loadingRef.current.add(boundsKey);
+    if (cached.length > 0) addTiles(cached);
 
-    try {
-      console.log('Loading buildings for viewport bounds:', bbox);
-
-      // Comprehensive Overpass query to capture ALL building footprints
-      const overpassQuery = `[out:json][timeout:30][maxsize:536870912];
-        (
-          way["building"](${bbox});
-          way["building:part"](${bbox});
-          way["landuse"](${bbox});
-          way["man_made"](${bbox});
-          way["amenity"](${bbox});
-          way["leisure"](${bbox});
-          way["shop"](${bbox});
-          way["office"](${bbox});
-          way["tourism"](${bbox});
-          way["historic"](${bbox});
-          way["aeroway"](${bbox});
-          way["railway"](${bbox});
-          way["public_transport"](${bbox});
-          way["craft"](${bbox});
-          way["industrial"](${bbox});
-          relation["building"](${bbox});
-          relation["building:part"](${bbox});
-          relation["landuse"](${bbox});
-          relation["man_made"](${bbox});
-          relation["amenity"](${bbox});
-          relation["leisure"](${bbox});
-          relation["shop"](${bbox});
-          relation["office"](${bbox});
-          relation["tourism"](${bbox});
-          relation["historic"](${bbox});
-          relation["aeroway"](${bbox});
-          relation["railway"](${bbox});
-          relation["public_transport"](${bbox});
-          relation["craft"](${bbox});
-          relation["industrial"](${bbox});
+    for (const { classes: groupClasses, tiles: groupTiles } of missing.values()) {
+      for (const tiles of chunk(groupTiles, TILES_PER_REQUEST)) {
+        const request = queue.enqueue(
+          { tiles, classes: groupClasses, centre: tilesCentre(tiles), generation: generationRef.current },
+          fetchTiles
         );
-        out geom;`;
-      
-      const overpassUrl = `https://overpass-api.de/api/interpreter?data=${encodeURIComponent(overpassQuery)}`;
-
-      const response = await fetch(overpassUrl);
-      
-      if (!response.ok) {
-        throw new Error(`Overpass API failed: ${response.status}`);
+        groupClasses.forEach(featureClass =>
+          tiles.forEach(tile => pendingRef.current.set(layerTileKey(featureClass, tile), request))
+        );
+        inFlight.add(request.promise);
       }
+    }
 
-      const data = await response.json();
-      const newBuildings = convertOSMToGeoJSON(data);
-      
-      console.log(`Loaded ${newBuildings.length} buildings for viewport`);
-
-      const newBuildingData = {
-        type: 'FeatureCollection' as const,
-        features: newBuildings
-      };
-
-      // Cache the result
-      buildingCache.set(bufferedBounds, newBuildingData);
-
-      // Merge with existing buildings (avoid duplicates by checking coordinates)
-      setBuildings(prev => {
-        const existingCoords = new Set(prev.features.map(f => 
-          f.geometry.coordinates[0][0].join(',')
-        ));
-        
-        const uniqueNewBuildings = newBuildings.filter(building =>
-          !existingCoords.has(building.geometry.coordinates[0][0].join(','))
-        );
+    await Promise.all(inFlight);
+  }, [addTiles, fetchTiles, enforceBudget, refreshStore, refreshVisible]);
 
-        return {
-          type: 'FeatureCollection',
-          features: [...prev.features, ...uniqueNewBuildings]
-        };
-      });
+  const setFeatureClassEnabled = useCallback((featureClass: FeatureClass, enabled: boolean) => {
+    const next = FEATURE_CLASS_PRESETS
+      .map(preset => preset.id)
+      .filter(id => id === featureClass ? enabled : featureClassesRef.current.includes(id));
+    featureClassesRef.current = next;
+    setFeatureClasses(next);
 
-    } catch (err) {
-      console.error('Failed to load viewport buildings:', err);
-      setError(err instanceof Error ? err.message : 'Failed to load buildings');
-    } finally {
-      setLoading(false);
-      loadingRef.current.delete(boundsKey);
+    if (enabled) {
+      if (viewBoundsRef.current) loadBuildings(viewBoundsRef.current);
+    } else {
+      // Free the memory; the tile caches keep them for switching back
+      storeRef.current.tileKeys()
+        .filter(key => key.startsWith(`${featureClass}:`))
+        .forEach(key => storeRef.current.removeTile(key));
+      refreshStore();
     }
-  }, [convertOSMToGeoJSON]);
+  }, [loadBuildings, refreshStore]);
 
   const clearCache = useCallback(() => {
-    buildingCache.clear();
-    setBuildings({ type: 'FeatureCollection', features: [] });
+    generationRef.current++;
+    queueRef.current.abortWhere(() => true);
+    pendingRef.current.clear();
+    buildingTileCache.clear();
+    storeRef.current.clear();
+    refreshStore();
+    setDiagnostics([]);
+    cache.clear('buildings').catch(err => console.warn('Failed to clear offline buildings:', err));
     console.log('Building cache cleared');
-  }, []);
+  }, [cache, refreshStore]);
 
   const cacheInfo = {
-    size: buildingCache.size(),
-    totalBuildings: buildings.features.length
+    size: buildingTileCache.size(),
+    totalBuildings: storeRef.current.size,
+    visibleBuildings: visibleFeatures.building.features.length,
+    maxFeatures
   };
 
   return {
     buildings,
-    loading,
+    visibleFeatures,
+    featureClasses,
+    setFeatureClassEnabled,
+    loading: pendingRequests > 0,
+    pendingRequests,
+    retry,
+    progress,
     error,
+    diagnostics,
     loadBuildings,
     clearCache,
     cacheInfo
   };
-};
\ No newline at end of file
+};
@@ -0,0 +1,167 @@
+// Shared GeoJSON feature types for Vienna map data
+
+export interface PolygonGeometry {
+  type: 'Polygon';
+  coordinates: number[][][]; // outer ring, then holes
+}
+
+export interface MultiPolygonGeometry {
+  type: 'MultiPolygon';
+  coordinates: number[][][][];
+}
+
+// Footprints assembled from OSM multipolygon relations (e.g. blocks with
+// courtyards) are MultiPolygons; simple ways are Polygons
+export type AreaGeometry = PolygonGeometry | MultiPolygonGeometry;
+
+// Where a feature's height comes from, from most to least reliable: a
+// tagged height, the number of storeys, or a default
+export type HeightSource = 'tagged' | 'levels' | 'estimated';
+
+// OSM tags of a feature as downloaded, e.g. { building: 'apartments', 'roof:shape': 'gabled' }
+export type OsmTags = Record<string, string>;
+
+// OSM tag each normalised property was read from, e.g. { BAUJAHR: 'start_date' }
+export interface AttributeSources {
+  HOEHE?: string;
+  BAUJAHR?: string;
+  MATERIAL?: string;
+  DENKMALSCHUTZ?: string;
+}
+
+export interface ViennaBuilding {
+  type: 'Feature';
+  id: string; // stable identity, e.g. "way/123456" for OSM features
+  properties: {
+    OSM_ID?: string; // copy of the id, used as Mapbox promoteId for feature-state
+    FEATURE_CLASS?: 'building'; // set on OSM features
+    ADRESSE?: string;
+    STRASSE?: string; // addr:street
+    HAUSNUMMER?: string; // addr:housenumber
+    PLZ?: string; // addr:postcode
+    GEBAEUDETYP?: string; // use, e.g. OSM building=apartments
+    BAUWEISE?: string; // construction method (geschlossene/offene Bauweise)
+    STOCKWERKE?: number;
+    HOEHE?: number; // metres
+    MIN_HOEHE?: number; // metres, for buildings raised above ground
+    HOEHE_QUELLE?: HeightSource;
+    DACHFORM?: string; // roof:shape, e.g. gabled
+    DACHAUSRICHTUNG?: 'along' | 'across'; // roof:orientation, ridge relative to the longest side
+    DACHRICHTUNG?: number; // roof:direction, degrees the slope faces
+    DACHNEIGUNG?: number; // roof:angle, degrees
+    BAUJAHR?: number; // construction year, the middle of the period if only that is known
+    BAUJAHR_CIRCA?: boolean; // BAUJAHR is approximate
+    BAUPERIODE?: string; // construction period from the Gebäudealter dataset, e.g. "1919–1944"
+    MATERIAL?: string; // building:material, e.g. brick
+    DENKMALSCHUTZ?: boolean; // listed as a monument (Bundesdenkmalamt)
+    NAME?: string;
+    QUELLEN?: AttributeSources; // set on OSM features
+    TAGS?: OsmTags; // set on OSM features
+  };
+  geometry: AreaGeometry;
+}
+
+// Part of a building with its own height, levels or roof (building:part=*)
+export interface BuildingPart {
+  type: 'Feature';
+  id: string;
+  properties: {
+    OSM_ID: string;
+    FEATURE_CLASS: 'buildingPart';
+    TEILTYP?: string; // building:part value unless just "yes"
+    STOCKWERKE?: number;
+    HOEHE: number; // metres, top of the part
+    MIN_HOEHE: number; // metres, bottom of the part
+    HOEHE_QUELLE: HeightSource;
+    NAME?: string;
+    QUELLEN: Pick<AttributeSources, 'HOEHE'>;
+    TAGS: OsmTags;
+  };
+  geometry: AreaGeometry;
+}
+
+export interface LandUseArea {
+  type: 'Feature';
+  id: string;
+  properties: {
+    OSM_ID: string;
+    FEATURE_CLASS: 'landuse';
+    NUTZUNG: string; // landuse value, e.g. residential
+    NAME?: string;
+    TAGS: OsmTags;
+  };
+  geometry: AreaGeometry;
+}
+
+// Amenity, shop, park etc. mapped as an area outside any building
+export interface PointOfInterest {
+  type: 'Feature';
+  id: string;
+  properties: {
+    OSM_ID: string;
+    FEATURE_CLASS: 'poi';
+    KATEGORIE: string; // OSM key, e.g. amenity
+    ART: string; // its value, e.g. school
+    ADRESSE?: string;
+    NAME?: string;
+    OEFFNUNGSZEITEN?: string; // opening_hours
+    WEBSITE?: string;
+    TAGS: OsmTags;
+  };
+  geometry: AreaGeometry;
+}
+
+// Kinds of OSM features loaded by viewport, by class; each class has its own map layer
+export interface FeatureKinds {
+  building: ViennaBuilding;
+  buildingPart: BuildingPart;
+  landuse: LandUseArea;
+  poi: PointOfInterest;
+}
+
+export type FeatureClass = keyof FeatureKinds;
+export type MapFeature = FeatureKinds[FeatureClass];
+
+export interface ViennaZoning {
+  type: 'Feature';
+  id?: string;
+  properties: {
+    WIDMUNG?: string;
+    NUTZUNGSART?: string;
+    BAUKLASSE?: string;
+    BAUWEISE?: string;
+    MAX_HOEHE?: number; // metres, explicit limit from the Bebauungsplan
+    MIN_HOEHE?: number;
+  };
+  geometry: {
+    type: 'Polygon';
+    coordinates: number[][][];
+  };
+}
+
+// Construction period of a building footprint in Vienna's Gebäudealter dataset
+export interface ViennaBuildingAge {
+  type: 'Feature';
+  id?: string;
+  properties: {
+    BAUPERIODE?: string; // period as published, e.g. "1919 - 1944"
+    BAUJAHR_VON?: number;
+    BAUJAHR_BIS?: number;
+  };
+  geometry: AreaGeometry;
+}
+
+export interface ViennaDistrict {
+  type: 'Feature';
+  properties: {
+    BEZIRK?: string;
+    NAMEK?: string; // district name in the OGD district boundaries layer
+    BEZNR?: number;
+  };
+  geometry: AreaGeometry;
+}
+
+export interface FeatureCollection<T> {
+  type: 'FeatureCollection';
+  features: T[];
+}
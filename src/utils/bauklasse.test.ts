@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { BAUKLASSE_RULES, formatHeightRange, getFloorLimits, parseBauklasse } from '@/utils/bauklasse';
+
+describe('parseBauklasse', () => {
+  it.each([
+    ['I', 'I'],
+    ['IV', 'IV'],
+    ['VI', 'VI'],
+    ['BK III', 'III'],
+    ['Bkl. II', 'II'],
+    ['Bauklasse V', 'V'],
+    ['iv', 'IV'],
+    // Several classes: the highest applies
+    ['III-IV', 'IV'],
+    ['I, II', 'II'],
+    // Zoning codes with the class and a Bauweise suffix
+    ['GB III g', 'III'],
+    ['W IV o', 'IV'],
+    ['GS I', 'I'],
+    // Garden settlements without a class
+    ['GS', 'GS'],
+    ['GB', 'GB'],
+    ['Gartensiedlung', 'GS']
+  ])('reads "%s" as %s', (raw, code) => {
+    expect(parseBauklasse(raw)?.code).toBe(code);
+  });
+
+  it.each([undefined, null, '', 'unbekannt', 'X', 'VII'])('rejects %j', raw => {
+    expect(parseBauklasse(raw)).toBeNull();
+  });
+
+  it('gives garden settlements the 5.5 m default', () => {
+    expect(parseBauklasse('GS')).toMatchObject({ minHeight: 0, maxHeight: 5.5 });
+    expect(parseBauklasse('GB')).toMatchObject({ minHeight: 0, maxHeight: 5.5 });
+  });
+});
+
+describe('getFloorLimits', () => {
+  it('converts the height range into whole floors', () => {
+    expect(getFloorLimits(BAUKLASSE_RULES.IV, 3)).toEqual({ minFloors: 4, maxFloors: 7, storeyHeight: 3 });
+    expect(getFloorLimits(BAUKLASSE_RULES.III, 3.2)).toEqual({ minFloors: 3, maxFloors: 5, storeyHeight: 3.2 });
+  });
+
+  it('allows one floor in garden settlements', () => {
+    expect(getFloorLimits(BAUKLASSE_RULES.GS, 3)).toEqual({ minFloors: 0, maxFloors: 1, storeyHeight: 3 });
+  });
+
+  it('leaves the upper limit of Bauklasse VI open', () => {
+    expect(getFloorLimits(BAUKLASSE_RULES.VI, 3)).toEqual({ minFloors: 9, maxFloors: null, storeyHeight: 3 });
+  });
+});
+
+describe('formatHeightRange', () => {
+  it('shows the range, or only the lower bound for Bauklasse VI', () => {
+    expect(formatHeightRange(BAUKLASSE_RULES.II)).toBe('2.5–12 m');
+    expect(formatHeightRange(BAUKLASSE_RULES.VI)).toBe('≥ 26 m');
+  });
+});
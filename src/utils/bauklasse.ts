@@ -0,0 +1,79 @@
+// Vienna building class (Bauklasse) height rules
+//
+// Heights follow Wiener Bauordnung §75 (2). Bauklasse VI only has a lower
+// bound; its upper limit is set individually in the Bebauungsplan.
+
+export type BauklasseCode = 'I' | 'II' | 'III' | 'IV' | 'V' | 'VI' | 'GS' | 'GB';
+
+export interface BauklasseRule {
+  code: BauklasseCode;
+  label: string;
+  minHeight: number; // metres
+  maxHeight: number | null; // metres, null = set by the Bebauungsplan
+  reference: string;
+}
+
+export interface FloorLimits {
+  minFloors: number;
+  maxFloors: number | null;
+  storeyHeight: number;
+}
+
+export const BAUKLASSE_RULES: Record<BauklasseCode, BauklasseRule> = {
+  I: { code: 'I', label: 'Bauklasse I', minHeight: 2.5, maxHeight: 9, reference: 'WBO §75 (2)' },
+  II: { code: 'II', label: 'Bauklasse II', minHeight: 2.5, maxHeight: 12, reference: 'WBO §75 (2)' },
+  III: { code: 'III', label: 'Bauklasse III', minHeight: 9, maxHeight: 16, reference: 'WBO §75 (2)' },
+  IV: { code: 'IV', label: 'Bauklasse IV', minHeight: 12, maxHeight: 21, reference: 'WBO §75 (2)' },
+  V: { code: 'V', label: 'Bauklasse V', minHeight: 16, maxHeight: 26, reference: 'WBO §75 (2)' },
+  VI: { code: 'VI', label: 'Bauklasse VI', minHeight: 26, maxHeight: null, reference: 'WBO §75 (2)' },
+  // Garden settlement areas: low-rise only. The Bebauungsplan usually states
+  // the exact value; 5.5 m is the conservative default used here.
+  GS: { code: 'GS', label: 'Gartensiedlung', minHeight: 0, maxHeight: 5.5, reference: 'WBO §75 / Bebauungsplan' },
+  GB: { code: 'GB', label: 'Gartensiedlung (GB)', minHeight: 0, maxHeight: 5.5, reference: 'WBO §75 / Bebauungsplan' }
+};
+
+// Ordered from the highest class down so "VI" is matched before "V" or "I"
+const ROMAN_CLASSES: BauklasseCode[] = ['VI', 'V', 'IV', 'III', 'II', 'I'];
+const CLASS_ORDER: BauklasseCode[] = ['GB', 'GS', 'I', 'II', 'III', 'IV', 'V', 'VI'];
+
+// Parse a raw BAUKLASSE attribute such as "IV", "BK III", "Bauklasse V",
+// "III-IV" or "GB III g". When several classes are listed the highest one wins.
+export const parseBauklasse = (raw: string | null | undefined): BauklasseRule | null => {
+  if (!raw) return null;
+
+  const normalised = raw
+    .toUpperCase()
+    .replace(/BAUKLASSE|BKL?\.?/g, ' ')
+    .replace(/GARTENSIEDLUNG/g, ' GS ')
+    .trim();
+
+  const tokens = normalised.split(/[^IV]+/).filter(Boolean);
+  const codes = tokens.filter((token): token is BauklasseCode =>
+    (ROMAN_CLASSES as string[]).includes(token)
+  );
+
+  // A class after the zoning prefix ("GB III g") is the one that applies
+  if (codes.length === 0) {
+    if (/\bG[SB]\b/.test(normalised)) {
+      return /\bGB\b/.test(normalised) ? BAUKLASSE_RULES.GB : BAUKLASSE_RULES.GS;
+    }
+    return null;
+  }
+
+  const highest = codes.reduce((best, code) =>
+    CLASS_ORDER.indexOf(code) > CLASS_ORDER.indexOf(best) ? code : best
+  );
+  return BAUKLASSE_RULES[highest];
+};
+
+// Convert a class's height range into floor-count limits
+export const getFloorLimits = (rule: BauklasseRule, storeyHeight: number): FloorLimits => ({
+  minFloors: Math.ceil(rule.minHeight / storeyHeight),
+  maxFloors: rule.maxHeight !== null ? Math.floor(rule.maxHeight / storeyHeight) : null,
+  storeyHeight
+});
+
+export const formatHeightRange = (rule: BauklasseRule): string =>
+  rule.maxHeight !== null
+    ? `${rule.minHeight}–${rule.maxHeight} m`
+    : `≥ ${rule.minHeight} m`;
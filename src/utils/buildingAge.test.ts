@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { ViennaBuilding, ViennaBuildingAge } from '@/types/vienna';
+import { BUILDING_AGE_SOURCE, createBuildingAgeJoin, formatConstructionYear } from '@/utils/buildingAge';
+
+// Square of the given size in degrees with its lower left corner at (lng, lat)
+const square = (lng: number, lat: number, size: number): number[][][] => [[
+  [lng, lat], [lng + size, lat], [lng + size, lat + size], [lng, lat + size], [lng, lat]
+]];
+
+const building = (properties: ViennaBuilding['properties'] = {}): ViennaBuilding => ({
+  type: 'Feature',
+  id: 'way/1',
+  properties,
+  geometry: { type: 'Polygon', coordinates: square(16.37, 48.2, 0.0002) }
+});
+
+const age = (properties: ViennaBuildingAge['properties'], lng = 16.3699): ViennaBuildingAge => ({
+  type: 'Feature',
+  properties,
+  geometry: { type: 'Polygon', coordinates: square(lng, 48.1999, 0.0004) }
+});
+
+describe('createBuildingAgeJoin', () => {
+  it.each([
+    ['a closed period', { BAUPERIODE: '1919 - 1944', BAUJAHR_VON: 1919, BAUJAHR_BIS: 1944 }, 1932, true],
+    ['a single year', { BAUPERIODE: '1961', BAUJAHR_VON: 1961, BAUJAHR_BIS: 1961 }, 1961, undefined],
+    ['"vor 1848"', { BAUPERIODE: 'vor 1848', BAUJAHR_BIS: 1848 }, 1847, true],
+    ['"nach 2000"', { BAUPERIODE: 'nach 2000', BAUJAHR_VON: 2000 }, 2000, true]
+  ])('takes the year from %s', (_, period, year, circa) => {
+    const joined = createBuildingAgeJoin([age(period)])(building());
+
+    expect(joined.properties).toMatchObject({ BAUJAHR: year, BAUPERIODE: period.BAUPERIODE });
+    expect(joined.properties.BAUJAHR_CIRCA).toBe(circa);
+    expect(joined.properties.QUELLEN?.BAUJAHR).toBe(BUILDING_AGE_SOURCE);
+  });
+
+  it('keeps a year already taken from OSM', () => {
+    const osm = building({ BAUJAHR: 1895, QUELLEN: { BAUJAHR: 'start_date' } });
+
+    expect(createBuildingAgeJoin([age({ BAUJAHR_VON: 1919, BAUJAHR_BIS: 1944 })])(osm)).toBe(osm);
+  });
+
+  it('ignores periods covering too little of the footprint', () => {
+    // Overlaps only the western quarter of the building
+    const edge = age({ BAUJAHR_VON: 1919, BAUJAHR_BIS: 1944 }, 16.36965);
+    const unchanged = building();
+
+    expect(createBuildingAgeJoin([edge])(unchanged)).toBe(unchanged);
+  });
+
+  it('leaves buildings without a period unchanged', () => {
+    const unchanged = building();
+
+    expect(createBuildingAgeJoin([age({ BAUPERIODE: 'unbekannt' })])(unchanged)).toBe(unchanged);
+  });
+});
+
+describe('formatConstructionYear', () => {
+  it.each([
+    [{ BAUJAHR: 1895 }, '1895'],
+    [{ BAUJAHR: 1890, BAUJAHR_CIRCA: true }, 'c. 1890'],
+    [{ BAUJAHR: 1932, BAUJAHR_CIRCA: true, BAUPERIODE: '1919 - 1944' }, '1919 - 1944'],
+    [{}, undefined]
+  ])('formats %j', (properties, expected) => {
+    expect(formatConstructionYear(properties)).toBe(expected);
+  });
+});
@@ -0,0 +1,122 @@
+// Construction years from Vienna's Gebäudealter dataset
+//
+// OSM buildings without a start_date take the construction period of the
+// Gebäudealter footprint covering most of their own footprint. Overlap is
+// estimated from a grid of sample points inside the OSM footprint.
+
+import { ViennaBuilding, ViennaBuildingAge } from '@/types/vienna';
+import { MapBounds, boundsOverlap } from '@/utils/mapBounds';
+import { geometryBounds, geometryCentroid, pointInGeometry } from '@/utils/geometry';
+
+export const BUILDING_AGE_SOURCE = 'Gebäudealter (Stadt Wien OGD)';
+
+// Share of the OSM footprint a Gebäudealter footprint has to cover
+const MIN_OVERLAP = 0.5;
+// Sample points per side of the footprint's bounding box
+const SAMPLE_GRID = 5;
+// Cell size of the spatial index, in degrees (~150 m)
+const CELL_SIZE = 0.002;
+
+const cellKeys = (bounds: MapBounds): string[] => {
+  const keys: string[] = [];
+  for (let x = Math.floor(bounds.west / CELL_SIZE); x <= Math.floor(bounds.east / CELL_SIZE); x++) {
+    for (let y = Math.floor(bounds.south / CELL_SIZE); y <= Math.floor(bounds.north / CELL_SIZE); y++) {
+      keys.push(`${x}:${y}`);
+    }
+  }
+  return keys;
+};
+
+const samplePoints = (building: ViennaBuilding): number[][] => {
+  const { west, east, south, north } = geometryBounds(building.geometry);
+  const points: number[][] = [];
+  for (let i = 0; i < SAMPLE_GRID; i++) {
+    for (let j = 0; j < SAMPLE_GRID; j++) {
+      const point = [
+        west + ((i + 0.5) / SAMPLE_GRID) * (east - west),
+        south + ((j + 0.5) / SAMPLE_GRID) * (north - south)
+      ];
+      if (pointInGeometry(point, building.geometry)) points.push(point);
+    }
+  }
+  return points.length > 0 ? points : [geometryCentroid(building.geometry)];
+};
+
+// Construction year standing for a period, and whether it is only approximate
+const periodYear = ({ BAUJAHR_VON, BAUJAHR_BIS }: ViennaBuildingAge['properties']): [number, boolean] | null => {
+  if (BAUJAHR_VON !== undefined && BAUJAHR_BIS !== undefined) {
+    return [Math.round((BAUJAHR_VON + BAUJAHR_BIS) / 2), BAUJAHR_VON !== BAUJAHR_BIS];
+  }
+  // Open periods ("vor 1848", "nach 2000") stand for the year next to their bound
+  if (BAUJAHR_VON !== undefined) return [BAUJAHR_VON, true];
+  return BAUJAHR_BIS !== undefined ? [BAUJAHR_BIS - 1, true] : null;
+};
+
+// Function adding the construction period to buildings without a year.
+// Results are memoised per building object, so repeated joins of the same
+// loaded buildings are cheap.
+export const createBuildingAgeJoin = (ages: ViennaBuildingAge[]) => {
+  const index = new Map<string, { age: ViennaBuildingAge; bounds: MapBounds }[]>();
+  ages.forEach(age => {
+    const entry = { age, bounds: geometryBounds(age.geometry) };
+    cellKeys(entry.bounds).forEach(key => {
+      const cell = index.get(key);
+      if (cell) cell.push(entry);
+      else index.set(key, [entry]);
+    });
+  });
+
+  const joined = new WeakMap<ViennaBuilding, ViennaBuilding>();
+
+  const findAge = (building: ViennaBuilding): ViennaBuildingAge | null => {
+    const bounds = geometryBounds(building.geometry);
+    const candidates = new Set(cellKeys(bounds).flatMap(key => index.get(key) || []));
+    const points = samplePoints(building);
+
+    let best: ViennaBuildingAge | null = null;
+    let bestShare = MIN_OVERLAP;
+    candidates.forEach(({ age, bounds: ageBounds }) => {
+      if (!boundsOverlap(bounds, ageBounds)) return;
+      const share = points.filter(point => pointInGeometry(point, age.geometry)).length / points.length;
+      if (share >= bestShare) {
+        best = age;
+        bestShare = share;
+      }
+    });
+    return best;
+  };
+
+  return (building: ViennaBuilding): ViennaBuilding => {
+    if (ages.length === 0 || building.properties.BAUJAHR !== undefined) return building;
+
+    const cached = joined.get(building);
+    if (cached) return cached;
+
+    const age = findAge(building);
+    const year = age ? periodYear(age.properties) : null;
+    const result: ViennaBuilding = age && year
+      ? {
+          ...building,
+          properties: {
+            ...building.properties,
+            BAUJAHR: year[0],
+            BAUJAHR_CIRCA: year[1] || undefined,
+            BAUPERIODE: age.properties.BAUPERIODE,
+            QUELLEN: { ...building.properties.QUELLEN, BAUJAHR: BUILDING_AGE_SOURCE }
+          }
+        }
+      : building;
+
+    joined.set(building, result);
+    return result;
+  };
+};
+
+// "1895", "c. 1850" or the published period, e.g. "1919 - 1944"
+export const formatConstructionYear = (
+  { BAUJAHR, BAUJAHR_CIRCA, BAUPERIODE }: Pick<ViennaBuilding['properties'], 'BAUJAHR' | 'BAUJAHR_CIRCA' | 'BAUPERIODE'>
+): string | undefined => {
+  if (BAUPERIODE) return BAUPERIODE;
+  if (BAUJAHR === undefined) return undefined;
+  return BAUJAHR_CIRCA ? `c. ${BAUJAHR}` : `${BAUJAHR}`;
+};
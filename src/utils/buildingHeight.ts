@@ -0,0 +1,83 @@
+// Building heights from OSM tags, for 3D extrusion
+//
+// Follows the Simple 3D Buildings scheme: `height`/`building:height` is the
+// top and `min_height` the bottom of a building or part. Without a height,
+// storeys (`building:levels` plus `roof:levels`) are multiplied by a typical
+// storey height, and without either a default number of storeys is assumed.
+
+import { HeightSource, ViennaBuilding } from '@/types/vienna';
+import { DEFAULT_STOREY_HEIGHT } from '@/utils/developmentPotential';
+
+// Storeys assumed when a building has neither height nor levels tagged
+export const ESTIMATED_LEVELS = 4;
+
+export const HEIGHT_SOURCE_LABELS: Record<HeightSource, string> = {
+  tagged: 'tagged height',
+  levels: 'from storeys',
+  estimated: 'estimated'
+};
+
+export interface OsmHeights {
+  height: number; // metres, top
+  minHeight: number; // metres, bottom
+  source: HeightSource;
+  tag?: string; // OSM tag(s) the height was read from, unless estimated
+}
+
+const FEET_TO_METRES = 0.3048;
+
+// OSM lengths: metres by default ("12", "12.5 m", "12,5"), or feet and
+// inches ("40'", "40'6\"")
+export const parseOsmLength = (value?: string): number | null => {
+  if (!value) return null;
+
+  const feet = value.match(/^\s*(\d+(?:\.\d+)?)\s*(?:'|ft)\s*(?:(\d+(?:\.\d+)?)\s*(?:"|in))?\s*$/);
+  if (feet) return (parseFloat(feet[1]) + (feet[2] ? parseFloat(feet[2]) / 12 : 0)) * FEET_TO_METRES;
+
+  const metres = value.match(/^\s*(\d+(?:[.,]\d+)?)\s*m?\s*$/);
+  return metres ? parseFloat(metres[1].replace(',', '.')) : null;
+};
+
+// Storey counts, taking the first of "4;5" and ignoring invalid values
+export const parseOsmLevels = (value?: string): number | null => {
+  if (!value) return null;
+  const levels = parseFloat(value);
+  return isNaN(levels) || levels < 0 ? null : levels;
+};
+
+export const getOsmHeights = (
+  tags: Record<string, string>,
+  storeyHeight = DEFAULT_STOREY_HEIGHT
+): OsmHeights => {
+  const minLevel = parseOsmLevels(tags['building:min_level']);
+  const minHeight = parseOsmLength(tags.min_height) ?? (minLevel !== null ? minLevel * storeyHeight : 0);
+
+  const heightTag = parseOsmLength(tags.height) !== null ? 'height' : 'building:height';
+  const tagged = parseOsmLength(tags[heightTag]);
+  if (tagged !== null && tagged > minHeight) {
+    return { height: tagged, minHeight, source: 'tagged', tag: heightTag };
+  }
+
+  const levelsTag = tags['building:levels'] ? 'building:levels' : 'levels';
+  const levels = parseOsmLevels(tags[levelsTag]);
+  if (levels !== null) {
+    const roofLevels = parseOsmLevels(tags['roof:levels']);
+    // A part's levels count from the ground, so they already include its min_level
+    const height = (levels + (roofLevels ?? 0)) * storeyHeight;
+    if (height > minHeight) {
+      return { height, minHeight, source: 'levels', tag: roofLevels ? `${levelsTag} + roof:levels` : levelsTag };
+    }
+  }
+
+  return { height: minHeight + ESTIMATED_LEVELS * storeyHeight, minHeight, source: 'estimated' };
+};
+
+// Height of any building as drawn in 3D: OSM buildings carry HOEHE, others
+// (e.g. the sample data) fall back to their storeys
+export const getBuildingHeights = (
+  properties: ViennaBuilding['properties'],
+  storeyHeight = DEFAULT_STOREY_HEIGHT
+): Omit<OsmHeights, 'source' | 'tag'> => ({
+  height: properties.HOEHE ?? (properties.STOCKWERKE ?? ESTIMATED_LEVELS) * storeyHeight,
+  minHeight: properties.MIN_HOEHE ?? 0
+});
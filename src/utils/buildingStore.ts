@@ -0,0 +1,168 @@
+// Spatially indexed, memory-bounded store of loaded buildings
+//
+// Buildings are kept per loaded tile (any key with the tile's bounds, e.g.
+// one per feature class and slippy-map tile) and indexed in a uniform grid of
+// slippy-map cells, so "buildings in this bbox" only looks at nearby cells.
+// When the store holds more than its feature budget, whole tiles farthest
+// from the viewport are evicted; they reload from the tile cache on return.
+
+import { MapFeature } from '@/types/vienna';
+import { geometryBounds } from '@/utils/geometry';
+import { getBuildingId } from '@/utils/buildings';
+import {
+  MapBounds,
+  BUILDING_TILE_ZOOM,
+  boundsOverlap,
+  countTilesForBounds,
+  tileToKey,
+  tilesForBounds
+} from '@/utils/mapBounds';
+
+export const DEFAULT_MAX_FEATURES = 15000;
+
+interface StoredBuilding {
+  building: MapFeature;
+  bounds: MapBounds;
+  cells: string[];
+  tiles: Set<string>; // loaded tiles that delivered this building
+}
+
+const boundsCentre = (bounds: MapBounds): [number, number] => [
+  (bounds.west + bounds.east) / 2,
+  (bounds.south + bounds.north) / 2
+];
+
+export class BuildingStore {
+  private features = new Map<string, StoredBuilding>();
+  private cells = new Map<string, Set<string>>();
+  private tiles = new Map<string, { bounds: MapBounds; ids: Set<string> }>();
+
+  constructor(private cellZoom: number = BUILDING_TILE_ZOOM) {}
+
+  get size(): number {
+    return this.features.size;
+  }
+
+  get tileCount(): number {
+    return this.tiles.size;
+  }
+
+  hasTile(tileKey: string): boolean {
+    return this.tiles.has(tileKey);
+  }
+
+  tileKeys(): string[] {
+    return [...this.tiles.keys()];
+  }
+
+  // Add (or replace) the buildings of a loaded tile
+  addTile(tileKey: string, tileBounds: MapBounds, buildings: MapFeature[]): void {
+    this.removeTile(tileKey);
+    const ids = new Set<string>();
+
+    for (const building of buildings) {
+      const id = getBuildingId(building);
+      ids.add(id);
+
+      const existing = this.features.get(id);
+      if (existing) {
+        existing.tiles.add(tileKey);
+        continue;
+      }
+
+      const bounds = geometryBounds(building.geometry);
+      const cells = tilesForBounds(bounds, this.cellZoom).map(tileToKey);
+      cells.forEach(cell => {
+        if (!this.cells.has(cell)) this.cells.set(cell, new Set());
+        this.cells.get(cell)!.add(id);
+      });
+
+      this.features.set(id, { building, bounds, cells, tiles: new Set([tileKey]) });
+    }
+
+    this.tiles.set(tileKey, { bounds: tileBounds, ids });
+  }
+
+  removeTile(tileKey: string): void {
+    const tile = this.tiles.get(tileKey);
+    if (!tile) return;
+
+    for (const id of tile.ids) {
+      const stored = this.features.get(id);
+      if (!stored) continue;
+
+      stored.tiles.delete(tileKey);
+      if (stored.tiles.size > 0) continue;
+
+      stored.cells.forEach(cell => {
+        const cellIds = this.cells.get(cell);
+        cellIds?.delete(id);
+        if (cellIds && cellIds.size === 0) this.cells.delete(cell);
+      });
+      this.features.delete(id);
+    }
+
+    this.tiles.delete(tileKey);
+  }
+
+  // Buildings whose bounding box overlaps the bounds
+  query(bounds: MapBounds): MapFeature[] {
+    // Bounds spanning more cells than are indexed (zoomed far out) are
+    // cheaper to answer by checking every stored building
+    if (countTilesForBounds(bounds, this.cellZoom) > this.cells.size) {
+      return [...this.features.values()]
+        .filter(stored => boundsOverlap(bounds, stored.bounds))
+        .map(stored => stored.building);
+    }
+
+    const seen = new Set<string>();
+    const result: MapFeature[] = [];
+
+    for (const cell of tilesForBounds(bounds, this.cellZoom)) {
+      for (const id of this.cells.get(tileToKey(cell)) || []) {
+        if (seen.has(id)) continue;
+        seen.add(id);
+
+        const stored = this.features.get(id)!;
+        if (boundsOverlap(bounds, stored.bounds)) result.push(stored.building);
+      }
+    }
+
+    return result;
+  }
+
+  all(): MapFeature[] {
+    return [...this.features.values()].map(stored => stored.building);
+  }
+
+  // Drop the tiles farthest from the view until the store fits the budget.
+  // Tiles overlapping the view are never evicted. Returns the evicted tiles.
+  evict(view: MapBounds, maxFeatures: number): string[] {
+    if (this.features.size <= maxFeatures) return [];
+
+    const [centreLng, centreLat] = boundsCentre(view);
+    const candidates = [...this.tiles.entries()]
+      .map(([key, { bounds }]) => ({ key, bounds }))
+      .filter(({ bounds }) => !boundsOverlap(view, bounds))
+      .map(({ key, bounds }) => {
+        const [lng, lat] = boundsCentre(bounds);
+        return { key, distance: Math.hypot(lng - centreLng, lat - centreLat) };
+      })
+      .sort((a, b) => b.distance - a.distance);
+
+    const evicted: string[] = [];
+    for (const { key } of candidates) {
+      if (this.features.size <= maxFeatures) break;
+      this.removeTile(key);
+      evicted.push(key);
+    }
+
+    return evicted;
+  }
+
+  clear(): void {
+    this.features.clear();
+    this.cells.clear();
+    this.tiles.clear();
+  }
+}
@@ -0,0 +1,23 @@
+// Identity helpers for building features
+
+import { MapFeature, ViennaBuilding } from '@/types/vienna';
+import { geometryCentroid } from '@/utils/geometry';
+
+// Id used to refer to a building across panels and assistant tools. Falls back
+// to the rounded footprint centroid (~1 m) for features without an id.
+export const getBuildingId = (building: MapFeature): string => {
+  if (building.id) return building.id;
+
+  const [lng, lat] = geometryCentroid(building.geometry);
+  return `c${lng.toFixed(5)},${lat.toFixed(5)}`;
+};
+
+// Merge feature lists by id; later entries replace earlier ones
+export const mergeBuildingsById = (...lists: ViennaBuilding[][]): ViennaBuilding[] => {
+  const byId = new Map<string, ViennaBuilding>();
+  lists.forEach(list => list.forEach(building => byId.set(getBuildingId(building), building)));
+  return [...byId.values()];
+};
+
+export const findBuildingById = (buildings: ViennaBuilding[], id: string): ViennaBuilding | null =>
+  buildings.find(building => getBuildingId(building) === id) || null;
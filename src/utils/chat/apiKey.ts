@@ -0,0 +1,29 @@
+// Chat API key entered by the user at runtime
+//
+// The key is kept in session storage only: it is gone when the tab closes and
+// never part of the build. Storage can be unavailable (private mode, blocked
+// cookies), in which case the key is kept in memory for this page load.
+
+const STORAGE_KEY = 'aec-chat-api-key';
+
+let memoryKey: string | undefined;
+
+export const getSessionApiKey = (): string | undefined => {
+  try {
+    return sessionStorage.getItem(STORAGE_KEY) || undefined;
+  } catch {
+    return memoryKey;
+  }
+};
+
+// Stores the key, or forgets it when empty
+export const setSessionApiKey = (key: string | undefined): void => {
+  const value = key?.trim() || undefined;
+  memoryKey = value;
+  try {
+    if (value) sessionStorage.setItem(STORAGE_KEY, value);
+    else sessionStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Memory only
+  }
+};
@@ -0,0 +1,54 @@
+// Chat provider selection from build-time configuration
+//
+//   VITE_CHAT_PROVIDER  'openai' | 'stub' (default: openai when a base URL is set)
+//   VITE_CHAT_BASE_URL  OpenAI-compatible endpoint, e.g. http://localhost:8080/v1 for
+//                       llama.cpp, or a server-side proxy that adds the API key
+//   VITE_CHAT_MODEL     model name sent with each request
+//
+// There is deliberately no build-time API key: VITE_ variables end up in the
+// public bundle. Against OpenAI itself each user enters a key at runtime.
+
+import { ChatProvider } from './types';
+import { createStubChatProvider } from './stubProvider';
+import { createOpenAiChatProvider } from './openAiProvider';
+import { getSessionApiKey } from './apiKey';
+
+export * from './types';
+export { createStubChatProvider } from './stubProvider';
+export { createOpenAiChatProvider } from './openAiProvider';
+export { getSessionApiKey, setSessionApiKey } from './apiKey';
+export * from './siteContext';
+export * from './tools';
+export * from './sessions';
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_MODEL = 'gpt-4o-mini';
+
+export interface ChatConfig {
+  provider?: string;
+  baseUrl?: string;
+  model?: string;
+}
+
+export const createChatProvider = (config: ChatConfig): ChatProvider => {
+  const provider = config.provider || (config.baseUrl ? 'openai' : 'stub');
+
+  if (provider === 'openai') {
+    const baseUrl = config.baseUrl || DEFAULT_BASE_URL;
+    return createOpenAiChatProvider({
+      baseUrl,
+      model: config.model || DEFAULT_MODEL,
+      getApiKey: getSessionApiKey,
+      // Local servers and proxies work without a key, OpenAI itself does not
+      requireApiKey: baseUrl === DEFAULT_BASE_URL
+    });
+  }
+
+  return createStubChatProvider();
+};
+
+export const chatProvider = createChatProvider({
+  provider: import.meta.env.VITE_CHAT_PROVIDER,
+  baseUrl: import.meta.env.VITE_CHAT_BASE_URL,
+  model: import.meta.env.VITE_CHAT_MODEL
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { createOpenAiChatProvider } from './openAiProvider';
+import { ChatMessage, ChatStreamEvent } from './types';
+
+const MESSAGES: ChatMessage[] = [{ role: 'user', content: 'Hello' }];
+
+// Server-sent events as the chat completions endpoint streams them
+const STREAM = [
+  'data: {"choices":[{"delta":{"content":"Hi"}}]}',
+  'data: {"choices":[{"delta":{"content":" there"}}]}',
+  'data: [DONE]',
+  ''
+].join('\n\n');
+
+const collect = async (stream: AsyncGenerator<ChatStreamEvent>): Promise<ChatStreamEvent[]> => {
+  const events: ChatStreamEvent[] = [];
+  for await (const event of stream) events.push(event);
+  return events;
+};
+
+const createRecordingFetch = () => {
+  const requests: RequestInit[] = [];
+  const fetch = async (_input: string, init?: RequestInit) => {
+    requests.push(init || {});
+    return new Response(STREAM, { status: 200 });
+  };
+  return { fetch, requests };
+};
+
+describe('createOpenAiChatProvider', () => {
+  it('sends the runtime key as a bearer token', async () => {
+    const { fetch, requests } = createRecordingFetch();
+    const provider = createOpenAiChatProvider({ baseUrl: 'https://example.test/v1', model: 'test', fetch, getApiKey: () => 'sk-test' });
+    const events = await collect(provider.streamChat({ messages: MESSAGES }));
+
+    expect(events).toEqual([{ type: 'token', text: 'Hi' }, { type: 'token', text: ' there' }]);
+    expect((requests[0].headers as Record<string, string>).Authorization).toBe('Bearer sk-test');
+  });
+
+  it('sends no authorisation header without a key', async () => {
+    const { fetch, requests } = createRecordingFetch();
+    const provider = createOpenAiChatProvider({ baseUrl: 'http://localhost:8080/v1', model: 'test', fetch });
+    await collect(provider.streamChat({ messages: MESSAGES }));
+
+    expect(provider.apiKey).toBe('optional');
+    expect(requests[0].headers).not.toHaveProperty('Authorization');
+  });
+
+  it('fails before sending when a required key is missing', async () => {
+    const { fetch, requests } = createRecordingFetch();
+    const provider = createOpenAiChatProvider({
+      baseUrl: 'https://api.openai.com/v1',
+      model: 'test',
+      fetch,
+      getApiKey: () => undefined,
+      requireApiKey: true
+    });
+
+    await expect(collect(provider.streamChat({ messages: MESSAGES }))).rejects.toThrow('needs an API key');
+    expect(requests).toHaveLength(0);
+  });
+});
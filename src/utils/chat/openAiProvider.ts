@@ -0,0 +1,152 @@
+// OpenAI-compatible chat completions provider (OpenAI, llama.cpp server, vLLM, ...)
+//
+// This runs in the browser, so a key given here is visible to anyone using
+// the page. Never build one in (e.g. through a VITE_ variable): point hosted
+// APIs at a server-side proxy that adds the key, or let each user enter their
+// own key at runtime, which getApiKey reads from session storage.
+
+import { FetchLike } from '@/utils/viennaOgd';
+import { ChatMessage, ChatProvider, ChatToolCall } from './types';
+
+export interface OpenAiChatProviderOptions {
+  baseUrl: string; // e.g. https://api.openai.com/v1 or http://localhost:8080/v1
+  model: string;
+  getApiKey?: () => string | undefined; // read per request, so a key entered later is used
+  requireApiKey?: boolean; // fail early instead of sending the request without a key
+  temperature?: number;
+  fetch?: FetchLike;
+}
+
+interface CompletionChunk {
+  choices?: {
+    delta?: {
+      content?: string | null;
+      tool_calls?: {
+        index: number;
+        id?: string;
+        function?: { name?: string; arguments?: string };
+      }[];
+    };
+  }[];
+}
+
+// Map provider-neutral messages onto the chat completions wire format
+const toApiMessage = (message: ChatMessage) => {
+  if (message.role === 'tool') {
+    return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+  }
+
+  if (message.role === 'assistant' && message.toolCalls?.length) {
+    return {
+      role: 'assistant',
+      content: message.content || null,
+      tool_calls: message.toolCalls.map(call => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: call.arguments }
+      }))
+    };
+  }
+
+  return { role: message.role, content: message.content };
+};
+
+// Yields the data payload of each server-sent event in the response body
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (trimmed.startsWith('data:')) yield trimmed.slice(5).trim();
+      }
+    }
+
+    const trimmed = buffer.trim();
+    if (trimmed.startsWith('data:')) yield trimmed.slice(5).trim();
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+export const createOpenAiChatProvider = (options: OpenAiChatProviderOptions): ChatProvider => {
+  const fetchImpl: FetchLike = options.fetch || ((input, init) => fetch(input, init));
+  const baseUrl = options.baseUrl.replace(/\/$/, '');
+
+  return {
+    name: `openai:${options.model}`,
+    apiKey: options.requireApiKey ? 'required' : 'optional',
+    streamChat: async function* ({ messages, tools, signal }) {
+      const apiKey = options.getApiKey?.();
+      if (options.requireApiKey && !apiKey) {
+        throw new Error('This chat backend needs an API key - enter one with the key button above');
+      }
+
+      const response = await fetchImpl(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+        },
+        body: JSON.stringify({
+          model: options.model,
+          messages: messages.map(toApiMessage),
+          ...(tools?.length
+            ? {
+                tools: tools.map(tool => ({ type: 'function', function: tool })),
+                tool_choice: 'auto'
+              }
+            : {}),
+          temperature: options.temperature ?? 0.3,
+          stream: true
+        }),
+        signal
+      });
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        throw new Error(`Chat backend failed: ${response.status}${detail ? ` - ${detail.slice(0, 200)}` : ''}`);
+      }
+
+      if (!response.body) {
+        throw new Error('Chat backend returned an empty response');
+      }
+
+      // Tool calls arrive in fragments keyed by index; emit them once complete
+      const toolCalls: ChatToolCall[] = [];
+
+      for await (const data of readServerSentEvents(response.body)) {
+        if (data === '[DONE]') break;
+
+        const chunk: CompletionChunk = JSON.parse(data);
+        const delta = chunk.choices?.[0]?.delta;
+        if (delta?.content) yield { type: 'token', text: delta.content };
+
+        for (const fragment of delta?.tool_calls || []) {
+          if (!toolCalls[fragment.index]) {
+            toolCalls[fragment.index] = { id: '', name: '', arguments: '' };
+          }
+
+          const call = toolCalls[fragment.index];
+          if (fragment.id) call.id = fragment.id;
+          if (fragment.function?.name) call.name += fragment.function.name;
+          if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+        }
+      }
+
+      for (const call of toolCalls.filter(Boolean)) {
+        yield { type: 'tool_call', call };
+      }
+    }
+  };
+};
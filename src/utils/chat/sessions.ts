@@ -0,0 +1,161 @@
+// Chat conversations persisted per site, so they survive reloads and can be
+// resumed from the history browser
+
+import type { Message } from '@/hooks/useChat';
+import { isIndexedDbAvailable, openDatabase, requestToPromise, transactionDone } from '@/utils/indexedDb';
+
+// Sessions started without a selected building
+export const GENERAL_SITE_KEY = 'general';
+
+const DB_NAME = 'vienna-building-advisor-chat';
+const DB_VERSION = 1;
+const SESSION_STORE = 'sessions';
+const TITLE_LENGTH = 60;
+
+export interface ChatSession {
+  id: string;
+  siteKey: string;
+  siteLabel: string | null;
+  title: string;
+  createdAt: Date;
+  updatedAt: Date;
+  messages: Message[];
+}
+
+export interface ChatSessionSummary extends Omit<ChatSession, 'messages'> {
+  messageCount: number;
+}
+
+// Dates are stored as ISO strings so records and exports are plain JSON
+interface StoredMessage extends Omit<Message, 'timestamp'> {
+  timestamp: string;
+}
+
+interface StoredChatSession extends Omit<ChatSession, 'createdAt' | 'updatedAt' | 'messages'> {
+  createdAt: string;
+  updatedAt: string;
+  messages: StoredMessage[];
+}
+
+export interface ChatSessionStore {
+  list: () => Promise<ChatSessionSummary[]>;
+  get: (id: string) => Promise<ChatSession | null>;
+  save: (session: ChatSession) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+}
+
+export const createSessionId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Title from the first question, until the user renames the session
+export const createSessionTitle = (messages: Message[]): string => {
+  const first = messages.find(message => message.type === 'user');
+  if (!first) return 'New conversation';
+
+  const text = first.content.trim().replace(/\s+/g, ' ');
+  return text.length > TITLE_LENGTH ? `${text.slice(0, TITLE_LENGTH - 1)}…` : text;
+};
+
+export const serializeSession = (session: ChatSession): StoredChatSession => ({
+  ...session,
+  createdAt: session.createdAt.toISOString(),
+  updatedAt: session.updatedAt.toISOString(),
+  messages: session.messages.map(message => ({
+    ...message,
+    // A reply still streaming when saved will never finish
+    status: message.status === 'streaming' ? 'cancelled' : message.status,
+    timestamp: message.timestamp.toISOString()
+  }))
+});
+
+export const deserializeSession = (stored: StoredChatSession): ChatSession => ({
+  ...stored,
+  createdAt: new Date(stored.createdAt),
+  updatedAt: new Date(stored.updatedAt),
+  messages: stored.messages.map(message => ({
+    ...message,
+    timestamp: new Date(message.timestamp)
+  }))
+});
+
+const toSummary = ({ messages, ...session }: ChatSession): ChatSessionSummary => ({
+  ...session,
+  messageCount: messages.length
+});
+
+const byMostRecent = (a: ChatSessionSummary, b: ChatSessionSummary): number =>
+  b.updatedAt.getTime() - a.updatedAt.getTime();
+
+export const exportSession = (session: ChatSession): string =>
+  JSON.stringify(serializeSession(session), null, 2);
+
+export const createIndexedDbSessionStore = (dbName: string = DB_NAME): ChatSessionStore => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const getDb = () => {
+    if (!dbPromise) {
+      dbPromise = openDatabase(dbName, DB_VERSION, (db, oldVersion) => {
+        if (oldVersion < 1) {
+          db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+        }
+      });
+    }
+    return dbPromise;
+  };
+
+  return {
+    list: async () => {
+      const db = await getDb();
+      const records: StoredChatSession[] = await requestToPromise(
+        db.transaction(SESSION_STORE).objectStore(SESSION_STORE).getAll()
+      );
+      return records.map(record => toSummary(deserializeSession(record))).sort(byMostRecent);
+    },
+
+    get: async (id) => {
+      const db = await getDb();
+      const record: StoredChatSession | undefined = await requestToPromise(
+        db.transaction(SESSION_STORE).objectStore(SESSION_STORE).get(id)
+      );
+      return record ? deserializeSession(record) : null;
+    },
+
+    save: async (session) => {
+      const db = await getDb();
+      const transaction = db.transaction(SESSION_STORE, 'readwrite');
+      transaction.objectStore(SESSION_STORE).put(serializeSession(session));
+      await transactionDone(transaction);
+    },
+
+    remove: async (id) => {
+      const db = await getDb();
+      const transaction = db.transaction(SESSION_STORE, 'readwrite');
+      transaction.objectStore(SESSION_STORE).delete(id);
+      await transactionDone(transaction);
+    }
+  };
+};
+
+// Non-persistent fallback, e.g. private browsing without IndexedDB
+export const createMemorySessionStore = (): ChatSessionStore => {
+  const sessions = new Map<string, StoredChatSession>();
+
+  return {
+    list: async () =>
+      [...sessions.values()].map(record => toSummary(deserializeSession(record))).sort(byMostRecent),
+    get: async (id) => {
+      const record = sessions.get(id);
+      return record ? deserializeSession(record) : null;
+    },
+    save: async (session) => {
+      sessions.set(session.id, serializeSession(session));
+    },
+    remove: async (id) => {
+      sessions.delete(id);
+    }
+  };
+};
+
+export const chatSessionStore: ChatSessionStore = isIndexedDbAvailable()
+  ? createIndexedDbSessionStore()
+  : createMemorySessionStore();
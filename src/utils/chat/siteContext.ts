@@ -0,0 +1,137 @@
+// Builds the per-turn site context sent to the assistant, so answers about
+// "this building" refer to what is actually selected on the map
+
+import { ViennaBuilding, ViennaDistrict, ViennaZoning } from '@/types/vienna';
+import { DevelopmentPotential, TracedValue } from '@/utils/developmentPotential';
+import { geometryCentroid, pointInGeometry } from '@/utils/geometry';
+import { MapViewState } from '@/utils/mapBounds';
+import { ChatMessage } from './types';
+
+export interface SiteContextInput {
+  building: ViennaBuilding | null;
+  zoning: ViennaZoning | null;
+  districts: ViennaDistrict[];
+  potential: DevelopmentPotential | null;
+  mapView: MapViewState | null;
+}
+
+interface TracedSummary {
+  value: number | null;
+  unit: string;
+  source: string;
+}
+
+export interface SiteContextPayload {
+  site: {
+    address: string | null;
+    name: string | null;
+    floors: number | null;
+    yearBuilt: number | null;
+    centroid: [number, number];
+  } | null;
+  zoning: ViennaZoning['properties'] | null;
+  district: string | null;
+  potential: Record<string, TracedSummary> | null;
+  mapView: {
+    center: [number, number];
+    zoom: number;
+  } | null;
+}
+
+// Badges shown under a reply, summarising what was sent with the turn
+export interface SiteContextSummary {
+  selectedParcel?: string;
+  mapView?: string;
+  analysis?: string;
+}
+
+const round = (value: number, digits: number): number => +value.toFixed(digits);
+
+const summariseTraced = (traced: TracedValue): TracedSummary => ({
+  value: traced.value,
+  unit: traced.unit,
+  source: traced.source
+});
+
+const districtName = (district: ViennaDistrict): string | null => {
+  const { BEZIRK, NAMEK, BEZNR } = district.properties;
+  if (BEZIRK) return BEZIRK;
+  if (NAMEK) return BEZNR ? `${BEZNR}. ${NAMEK}` : NAMEK;
+  return null;
+};
+
+export const findDistrictAt = (districts: ViennaDistrict[], point: number[]): string | null => {
+  const district = districts.find(candidate => pointInGeometry(point, candidate.geometry));
+  return district ? districtName(district) : null;
+};
+
+export const buildSiteContext = ({
+  building,
+  zoning,
+  districts,
+  potential,
+  mapView
+}: SiteContextInput): SiteContextPayload => {
+  const centroid = building ? geometryCentroid(building.geometry) : null;
+  const districtPoint = centroid || mapView?.center || null;
+
+  return {
+    site: building && centroid
+      ? {
+          address: building.properties.ADRESSE || null,
+          name: building.properties.NAME || null,
+          floors: building.properties.STOCKWERKE ?? null,
+          yearBuilt: building.properties.BAUJAHR ?? null,
+          centroid: [round(centroid[0], 6), round(centroid[1], 6)]
+        }
+      : null,
+    zoning: zoning ? zoning.properties : null,
+    district: districtPoint ? findDistrictAt(districts, districtPoint) : null,
+    potential: potential
+      ? {
+          footprintArea: summariseTraced(potential.footprintArea),
+          currentFloors: summariseTraced(potential.currentFloors),
+          currentHeight: summariseTraced(potential.currentHeight),
+          permittedHeight: summariseTraced(potential.permittedHeight),
+          permittedFloors: summariseTraced(potential.permittedFloors),
+          additionalFloors: summariseTraced(potential.additionalFloors)
+        }
+      : null,
+    mapView: mapView
+      ? {
+          center: [round(mapView.center[0], 5), round(mapView.center[1], 5)],
+          zoom: round(mapView.zoom, 1)
+        }
+      : null
+  };
+};
+
+// System message carrying the payload for one turn
+export const formatSiteContextMessage = (payload: SiteContextPayload): ChatMessage => ({
+  role: 'system',
+  content: [
+    'Current map context for this question (JSON). "This building" or "this site" refers to `site`.',
+    'Only use these figures; if a value is null, say it is unknown rather than guessing.',
+    JSON.stringify(payload)
+  ].join('\n')
+});
+
+export const summariseSiteContext = (payload: SiteContextPayload): SiteContextSummary => {
+  const additional = payload.potential?.additionalFloors.value;
+  const bauklasse = payload.zoning?.BAUKLASSE;
+
+  const analysis = [
+    bauklasse ? `Bauklasse ${bauklasse}` : payload.site ? 'No zoning data' : null,
+    additional !== undefined && additional !== null ? `+${additional} floors` : null
+  ].filter(Boolean).join(' · ');
+
+  const view = payload.mapView
+    ? [payload.district, `z${payload.mapView.zoom}`].filter(Boolean).join(' · ')
+    : undefined;
+
+  return {
+    selectedParcel: payload.site ? payload.site.address || 'Unnamed building' : undefined,
+    mapView: view,
+    analysis: analysis || undefined
+  };
+};
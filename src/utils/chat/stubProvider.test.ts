@@ -0,0 +1,70 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createStubChatProvider } from './stubProvider';
+import { ChatMessage, ChatStreamEvent, isAbortError } from './types';
+
+const MESSAGES: ChatMessage[] = [
+  { role: 'system', content: 'You are a test assistant.' },
+  { role: 'user', content: 'How high can I build?' }
+];
+
+const collect = async (stream: AsyncGenerator<ChatStreamEvent>): Promise<ChatStreamEvent[]> => {
+  const events: ChatStreamEvent[] = [];
+  for await (const event of stream) events.push(event);
+  return events;
+};
+
+describe('createStubChatProvider', () => {
+  it('streams tokens that join back into the reply', async () => {
+    const provider = createStubChatProvider({ tokenDelayMs: 0, respond: () => 'Up to  21 m,\nBauklasse IV.' });
+    const events = await collect(provider.streamChat({ messages: MESSAGES }));
+
+    expect(events.every(event => event.type === 'token')).toBe(true);
+    expect(events.map(event => event.type === 'token' ? event.text : '').join('')).toBe('Up to  21 m,\nBauklasse IV.');
+  });
+
+  it('echoes the last user message by default', async () => {
+    const provider = createStubChatProvider({ tokenDelayMs: 0 });
+    const events = await collect(provider.streamChat({ messages: MESSAGES }));
+    const text = events.map(event => event.type === 'token' ? event.text : '').join('');
+
+    expect(text).toContain('"How high can I build?"');
+  });
+
+  it('emits scripted tool calls after the text', async () => {
+    const provider = createStubChatProvider({
+      tokenDelayMs: 0,
+      respond: () => ({ text: 'Selecting it.', toolCalls: [{ name: 'selectBuilding', arguments: { id: 'way/1' } }] })
+    });
+    const events = await collect(provider.streamChat({ messages: MESSAGES }));
+    const last = events[events.length - 1];
+
+    expect(last).toEqual({
+      type: 'tool_call',
+      call: { id: 'stub-call-2-0', name: 'selectBuilding', arguments: '{"id":"way/1"}' }
+    });
+  });
+
+  it('removes its abort listeners once each token is sent', async () => {
+    const provider = createStubChatProvider({ tokenDelayMs: 1 });
+    const { signal } = new AbortController();
+    const added = vi.spyOn(signal, 'addEventListener');
+    const removed = vi.spyOn(signal, 'removeEventListener');
+
+    await collect(provider.streamChat({ messages: MESSAGES, signal }));
+
+    expect(added.mock.calls.length).toBeGreaterThan(1);
+    expect(removed).toHaveBeenCalledTimes(added.mock.calls.length);
+  });
+
+  it('rejects with an abort error when cancelled', async () => {
+    const provider = createStubChatProvider({ tokenDelayMs: 5 });
+    const controller = new AbortController();
+    const stream = provider.streamChat({ messages: MESSAGES, signal: controller.signal });
+
+    await stream.next();
+    controller.abort();
+
+    const error = await collect(stream).catch(err => err);
+    expect(isAbortError(error)).toBe(true);
+  });
+});
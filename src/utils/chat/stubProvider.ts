@@ -0,0 +1,67 @@
+// Deterministic in-browser chat provider for tests and offline development
+
+import { ChatMessage, ChatProvider, createAbortError } from './types';
+
+// Scripted reply: plain text, or text plus tool calls to request
+export type StubReply = string | {
+  text?: string;
+  toolCalls?: { name: string; arguments: Record<string, unknown> }[];
+};
+
+export interface StubChatProviderOptions {
+  // Builds the reply from the conversation; defaults to an echo
+  respond?: (messages: ChatMessage[]) => StubReply;
+  // Delay between streamed tokens, 0 streams synchronously
+  tokenDelayMs?: number;
+}
+
+const defaultRespond = (messages: ChatMessage[]): string => {
+  const lastUserMessage = [...messages].reverse().find(message => message.role === 'user');
+  return `(Offline assistant) No language model is configured. You asked: "${lastUserMessage?.content || ''}"`;
+};
+
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(createAbortError());
+    };
+    // Removed once the delay is over, so a long reply does not pile up
+    // listeners on the shared signal
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+export const createStubChatProvider = (options: StubChatProviderOptions = {}): ChatProvider => {
+  const respond = options.respond || defaultRespond;
+  const tokenDelayMs = options.tokenDelayMs ?? 30;
+
+  return {
+    name: 'stub',
+    streamChat: async function* ({ messages, signal }) {
+      // Split on word boundaries but keep the whitespace, so joining tokens
+      // reproduces the reply exactly
+      const reply = respond(messages);
+      const text = typeof reply === 'string' ? reply : reply.text || '';
+      const tokens = text.match(/\S+\s*|\s+/g) || [];
+
+      for (const token of tokens) {
+        if (signal?.aborted) throw createAbortError();
+        if (tokenDelayMs > 0) await wait(tokenDelayMs, signal);
+        yield { type: 'token', text: token };
+      }
+
+      if (typeof reply !== 'string') {
+        for (const [index, call] of (reply.toolCalls || []).entries()) {
+          yield {
+            type: 'tool_call',
+            call: { id: `stub-call-${messages.length}-${index}`, name: call.name, arguments: JSON.stringify(call.arguments) }
+          };
+        }
+      }
+    }
+  };
+};
@@ -0,0 +1,88 @@
+// Typed tools the assistant can call to drive the map and site panels
+
+import { ChatToolDefinition } from './types';
+
+export type MapLayerName = 'buildings' | 'zoning' | 'parcels' | 'restrictions' | 'solar';
+
+export interface ChatToolArguments {
+  flyTo: { address: string };
+  selectBuilding: { id: string };
+  toggleLayer: { layer: MapLayerName; visible?: boolean };
+  computePotential: { id?: string };
+  listBuildingsInView: {
+    minFloors?: number;
+    maxFloors?: number;
+    nameContains?: string;
+    limit?: number;
+    highlight?: boolean;
+  };
+}
+
+export type ChatToolName = keyof ChatToolArguments;
+
+export type ChatToolHandler<T extends ChatToolName> = (args: ChatToolArguments[T]) => Promise<unknown>;
+
+export const CHAT_TOOLS: ChatToolDefinition[] = [
+  {
+    name: 'flyTo',
+    description: 'Move the map to a Vienna address or place and select the building there.',
+    parameters: {
+      type: 'object',
+      properties: {
+        address: { type: 'string', description: 'Address or place, e.g. "Graben 21, 1010 Wien" or "Stephansplatz"' }
+      },
+      required: ['address']
+    }
+  },
+  {
+    name: 'selectBuilding',
+    description: 'Select a building by the id returned from listBuildingsInView.',
+    parameters: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' }
+      },
+      required: ['id']
+    }
+  },
+  {
+    name: 'toggleLayer',
+    description: 'Show or hide a map layer ("solar" colours buildings by rooftop solar yield). Omit "visible" to toggle.',
+    parameters: {
+      type: 'object',
+      properties: {
+        layer: { type: 'string', enum: ['buildings', 'zoning', 'parcels', 'restrictions', 'solar'] },
+        visible: { type: 'boolean' }
+      },
+      required: ['layer']
+    }
+  },
+  {
+    name: 'computePotential',
+    description: 'Compute current floors, permitted height/floors and additional floors for a building. ' +
+      'Defaults to the selected building when no id is given.',
+    parameters: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' }
+      }
+    }
+  },
+  {
+    name: 'listBuildingsInView',
+    description: 'List buildings loaded in the current map view, optionally filtered, and highlight them on the map.',
+    parameters: {
+      type: 'object',
+      properties: {
+        minFloors: { type: 'number' },
+        maxFloors: { type: 'number' },
+        nameContains: { type: 'string', description: 'Case-insensitive match on address or name' },
+        limit: { type: 'number', description: 'Maximum buildings returned (default 25)' },
+        highlight: { type: 'boolean', description: 'Highlight matches on the map (default true)' }
+      }
+    }
+  }
+];
+
+export const isChatToolName = (name: string): name is ChatToolName =>
+  CHAT_TOOLS.some(tool => tool.name === name);
@@ -0,0 +1,51 @@
+// Chat provider contract shared by every LLM backend
+
+export interface ChatToolCall {
+  id: string;
+  name: string;
+  arguments: string; // JSON-encoded, as produced by the model
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  toolCalls?: ChatToolCall[]; // assistant turns that requested tools
+  toolCallId?: string; // tool results, answering that call
+}
+
+// JSON-schema description of a callable tool
+export interface ChatToolDefinition {
+  name: string;
+  description: string;
+  parameters: {
+    type: 'object';
+    properties: Record<string, unknown>;
+    required?: string[];
+  };
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  tools?: ChatToolDefinition[];
+  signal?: AbortSignal;
+}
+
+export type ChatStreamEvent =
+  | { type: 'token'; text: string }
+  | { type: 'tool_call'; call: ChatToolCall };
+
+export interface ChatProvider {
+  name: string;
+  apiKey?: 'required' | 'optional'; // whether the user can or must enter a key at runtime
+  // Streams the assistant reply. Rejects with an AbortError when the request's
+  // signal is aborted, and with a regular Error for network/backend failures.
+  streamChat: (request: ChatRequest) => AsyncGenerator<ChatStreamEvent>;
+}
+
+export const isAbortError = (err: unknown): boolean =>
+  err instanceof DOMException
+    ? err.name === 'AbortError'
+    : err instanceof Error && err.name === 'AbortError';
+
+export const createAbortError = (): DOMException =>
+  new DOMException('The chat request was cancelled', 'AbortError');
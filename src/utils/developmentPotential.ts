@@ -0,0 +1,161 @@
+// Development potential analysis for a single building footprint
+//
+// Every figure is returned as a TracedValue so the UI can show where it came
+// from (OSM tag, zoning attribute, derived calculation) next to the number.
+
+import { ViennaBuilding, ViennaZoning } from '@/types/vienna';
+import { countVertices, geometryArea, geometryCentroid, getPolygons, pointInPolygon } from '@/utils/geometry';
+import { parseBauklasse, formatHeightRange, BauklasseRule } from '@/utils/bauklasse';
+
+export const DEFAULT_STOREY_HEIGHT = 3.2; // metres, typical Viennese storey incl. slab
+
+export interface TracedValue {
+  value: number | null;
+  unit: 'm' | 'm²' | 'floors' | 'kWp' | 'kWh/a';
+  source: string;
+}
+
+export interface DevelopmentPotentialInput {
+  building: ViennaBuilding;
+  zoning?: ViennaZoning | null;
+  storeyHeight?: number;
+}
+
+export interface DevelopmentPotential {
+  address: string | null;
+  zoning: ViennaZoning['properties'] | null;
+  bauklasse: BauklasseRule | null;
+  storeyHeight: number;
+  footprintArea: TracedValue;
+  currentFloors: TracedValue;
+  currentHeight: TracedValue;
+  permittedHeight: TracedValue;
+  permittedFloors: TracedValue;
+  additionalFloors: TracedValue;
+  warnings: string[];
+}
+
+const unknown = (unit: TracedValue['unit'], source: string): TracedValue => ({
+  value: null,
+  unit,
+  source
+});
+
+// Find the zoning polygon the building sits in, preferring the footprint centroid
+// and falling back to any footprint vertex for buildings straddling a boundary
+export const findZoningForBuilding = (
+  building: ViennaBuilding,
+  zoningFeatures: ViennaZoning[]
+): ViennaZoning | null => {
+  const outers = getPolygons(building.geometry).map(polygon => polygon[0]).filter(Boolean);
+  if (outers.length === 0) return null;
+
+  const centroid = geometryCentroid(building.geometry);
+  const byCentroid = zoningFeatures.find(zone => pointInPolygon(centroid, zone.geometry.coordinates));
+  if (byCentroid) return byCentroid;
+
+  return zoningFeatures.find(zone =>
+    outers.some(outer => outer.some(coord => pointInPolygon(coord, zone.geometry.coordinates)))
+  ) || null;
+};
+
+export const analyzeDevelopmentPotential = ({
+  building,
+  zoning = null,
+  storeyHeight = DEFAULT_STOREY_HEIGHT
+}: DevelopmentPotentialInput): DevelopmentPotential => {
+  const warnings: string[] = [];
+  const properties = building.properties;
+
+  // Courtyards (inner rings) are not part of the footprint
+  const polygons = getPolygons(building.geometry);
+  const courtyards = polygons.reduce((sum, polygon) => sum + polygon.length - 1, 0);
+  const area = geometryArea(building.geometry);
+  const footprintArea: TracedValue = {
+    value: Math.round(area),
+    unit: 'm²',
+    source: `Footprint polygon (${countVertices(building.geometry)} vertices` +
+      `${polygons.length > 1 ? `, ${polygons.length} parts` : ''}` +
+      `${courtyards > 0 ? `, ${courtyards} courtyard${courtyards > 1 ? 's' : ''} excluded` : ''})`
+  };
+
+  const currentFloors: TracedValue = typeof properties.STOCKWERKE === 'number' && !isNaN(properties.STOCKWERKE)
+    ? { value: properties.STOCKWERKE, unit: 'floors', source: 'STOCKWERKE (OSM building:levels)' }
+    : unknown('floors', 'No storey count recorded for this building');
+
+  if (currentFloors.value === null) {
+    warnings.push('Current floor count unknown - additional floors cannot be derived');
+  }
+
+  const currentHeight: TracedValue = currentFloors.value !== null
+    ? {
+        value: +(currentFloors.value * storeyHeight).toFixed(1),
+        unit: 'm',
+        source: `${currentFloors.value} floors × ${storeyHeight} m storey height (estimate)`
+      }
+    : unknown('m', 'Derived from floor count, which is unknown');
+
+  const bauklasse = parseBauklasse(zoning?.properties.BAUKLASSE);
+
+  let permittedHeight: TracedValue;
+  if (!zoning) {
+    permittedHeight = unknown('m', 'No zoning polygon intersects this footprint');
+    warnings.push('No zoning data available for this location');
+  } else if (zoning.properties.MAX_HOEHE) {
+    // An explicit height limit in the Bebauungsplan overrides the Bauklasse range
+    permittedHeight = {
+      value: zoning.properties.MAX_HOEHE,
+      unit: 'm',
+      source: 'Height limit from the Bebauungsplan'
+    };
+  } else if (!bauklasse) {
+    permittedHeight = unknown('m', zoning.properties.BAUKLASSE
+      ? `Unrecognised Bauklasse "${zoning.properties.BAUKLASSE}"`
+      : 'Zoning has no Bauklasse');
+    warnings.push('Permitted height could not be determined from zoning');
+  } else if (bauklasse.maxHeight === null) {
+    permittedHeight = unknown('m', `${bauklasse.label} (${formatHeightRange(bauklasse)}) - upper limit set by the Bebauungsplan`);
+    warnings.push('Permitted height could not be determined from zoning');
+  } else {
+    permittedHeight = {
+      value: bauklasse.maxHeight,
+      unit: 'm',
+      source: `${bauklasse.label} maximum, ${formatHeightRange(bauklasse)} (${bauklasse.reference})`
+    };
+  }
+
+  const permittedFloors: TracedValue = permittedHeight.value !== null
+    ? {
+        value: Math.floor(permittedHeight.value / storeyHeight),
+        unit: 'floors',
+        source: `⌊${permittedHeight.value} m ÷ ${storeyHeight} m storey height⌋`
+      }
+    : unknown('floors', 'Derived from permitted height, which is unknown');
+
+  const additionalFloors: TracedValue = permittedFloors.value !== null && currentFloors.value !== null
+    ? {
+        value: Math.max(0, permittedFloors.value - currentFloors.value),
+        unit: 'floors',
+        source: `${permittedFloors.value} permitted − ${currentFloors.value} current`
+      }
+    : unknown('floors', 'Requires both current and permitted floor counts');
+
+  if (additionalFloors.value === 0 && permittedFloors.value !== null &&
+      currentFloors.value !== null && currentFloors.value > permittedFloors.value) {
+    warnings.push('Building already exceeds the permitted height (existing consent)');
+  }
+
+  return {
+    address: properties.ADRESSE || null,
+    zoning: zoning ? zoning.properties : null,
+    bauklasse,
+    storeyHeight,
+    footprintArea,
+    currentFloors,
+    currentHeight,
+    permittedHeight,
+    permittedFloors,
+    additionalFloors,
+    warnings
+  };
+};
@@ -0,0 +1,105 @@
+// Popup contents for the map's feature kinds, one layout per feature class
+
+import { AttributeSources, BuildingPart, LandUseArea, MapFeature, OsmTags, PointOfInterest, ViennaBuilding } from '@/types/vienna';
+import { HEIGHT_SOURCE_LABELS } from '@/utils/buildingHeight';
+import { formatConstructionYear } from '@/utils/buildingAge';
+
+// OSM values are user-entered, so never inject them as markup
+const escapeHtml = (text: string): string =>
+  text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+// Mapbox hands out nested properties of rendered features as JSON strings
+const readObject = <T extends object>(value?: T | string): T | undefined =>
+  typeof value === 'string' ? JSON.parse(value) : value;
+
+const readable = (value?: string): string | undefined => value?.replace(/_/g, ' ');
+
+// Value with the OSM tag it was read from, if any
+const row = (label: string, value?: string | number | null, source?: string): string =>
+  value === undefined || value === null || value === ''
+    ? ''
+    : `<div><strong>${label}:</strong> ${escapeHtml(String(value))}` +
+      (source ? ` <span class="text-muted-foreground">(${escapeHtml(source)})</span>` : '') +
+      '</div>';
+
+// Collapsed table of every tag the feature has in OSM
+const rawAttributes = (tags?: OsmTags | string): string => {
+  const entries = Object.entries(readObject(tags) ?? {}).sort(([a], [b]) => a.localeCompare(b));
+  if (entries.length === 0) return '';
+
+  return `
+    <details class="mt-2 text-xs">
+      <summary class="cursor-pointer text-muted-foreground">Raw attributes (${entries.length})</summary>
+      <div class="max-h-48 overflow-auto mt-1">
+        <table>${entries.map(([key, value]) =>
+          `<tr><td class="pr-2 align-top font-mono">${escapeHtml(key)}</td><td class="break-all">${escapeHtml(value)}</td></tr>`
+        ).join('')}</table>
+      </div>
+    </details>
+  `;
+};
+
+const popup = (title: string, rows: string[], tags?: OsmTags | string): string => `
+  <div class="p-3">
+    <h3 class="font-semibold mb-2">${title}</h3>
+    <div class="space-y-1 text-sm">${rows.join('')}</div>
+    ${rawAttributes(tags)}
+  </div>
+`;
+
+const formatHeight = ({ HOEHE, MIN_HOEHE, HOEHE_QUELLE }: Pick<ViennaBuilding['properties'], 'HOEHE' | 'MIN_HOEHE' | 'HOEHE_QUELLE'>) => {
+  if (HOEHE === undefined) return undefined;
+  return MIN_HOEHE ? `${MIN_HOEHE.toFixed(1)}–${HOEHE.toFixed(1)} m` : `${HOEHE.toFixed(1)} m`;
+};
+
+const heightSource = (properties: Pick<ViennaBuilding['properties'], 'HOEHE_QUELLE'>, sources?: AttributeSources) =>
+  [properties.HOEHE_QUELLE && HEIGHT_SOURCE_LABELS[properties.HOEHE_QUELLE], sources?.HOEHE].filter(Boolean).join(', ');
+
+const buildingPopup = (properties: ViennaBuilding['properties']) => {
+  const sources = readObject(properties.QUELLEN);
+  return popup('Building Information', [
+    row('Address', properties.ADRESSE),
+    row('Name', properties.NAME),
+    row('Type', readable(properties.GEBAEUDETYP)),
+    row('Bauweise', properties.BAUWEISE),
+    row('Floors', properties.STOCKWERKE),
+    row('Height', formatHeight(properties), heightSource(properties, sources)),
+    row('Built', formatConstructionYear(properties), sources?.BAUJAHR),
+    row('Material', properties.MATERIAL, sources?.MATERIAL),
+    row('Heritage', properties.DENKMALSCHUTZ ? 'Listed monument' : undefined, sources?.DENKMALSCHUTZ)
+  ], properties.TAGS);
+};
+
+const buildingPartPopup = (properties: BuildingPart['properties']) => popup('Building Part', [
+  row('Name', properties.NAME),
+  row('Type', readable(properties.TEILTYP)),
+  row('Floors', properties.STOCKWERKE),
+  row('Height', formatHeight(properties), heightSource(properties, readObject(properties.QUELLEN)))
+], properties.TAGS);
+
+const landUsePopup = (properties: LandUseArea['properties']) => popup('Land Use', [
+  row('Use', readable(properties.NUTZUNG)),
+  row('Name', properties.NAME)
+], properties.TAGS);
+
+const poiPopup = (properties: PointOfInterest['properties']) => popup('Point of Interest', [
+  row('Name', properties.NAME),
+  row('Type', readable(properties.ART)),
+  row('Category', readable(properties.KATEGORIE)),
+  row('Address', properties.ADRESSE),
+  row('Opening hours', properties.OEFFNUNGSZEITEN),
+  row('Website', properties.WEBSITE)
+], properties.TAGS);
+
+export const getFeaturePopupHtml = (properties: MapFeature['properties']): string => {
+  switch (properties.FEATURE_CLASS) {
+    case 'buildingPart':
+      return buildingPartPopup(properties);
+    case 'landuse':
+      return landUsePopup(properties);
+    case 'poi':
+      return poiPopup(properties);
+    default:
+      return buildingPopup(properties);
+  }
+};
@@ -0,0 +1,219 @@
+// Address geocoding behind a provider interface
+//
+// The local provider searches the addr:* tags of buildings already loaded on
+// the map, so search keeps working offline; the OGD provider calls Vienna's
+// address service for everything else.
+
+import { ViennaBuilding } from '@/types/vienna';
+import { geometryCentroid } from '@/utils/geometry';
+import { FetchLike } from '@/utils/viennaOgd';
+
+export interface GeocodeResult {
+  label: string;
+  coordinates: [number, number]; // [lng, lat]
+  street?: string;
+  housenumber?: string;
+  postcode?: string;
+  source: string;
+}
+
+export interface GeocodingProvider {
+  name: string;
+  suggest: (query: string, limit?: number, signal?: AbortSignal) => Promise<GeocodeResult[]>;
+  geocode: (query: string, signal?: AbortSignal) => Promise<GeocodeResult | null>;
+}
+
+export interface ParsedAddress {
+  street: string;
+  housenumber?: string;
+  postcode?: string;
+}
+
+export const VIENNA_ADDRESS_SERVICE_URL = 'https://data.wien.gv.at/daten/OGDAddressService.svc/GetAddressInfo';
+
+// Lower-case and unify spelling variants ("Str.", "Straße", "Strasse")
+export const normaliseStreet = (street: string): string =>
+  street
+    .toLowerCase()
+    .replace(/ß/g, 'ss')
+    .replace(/str\.?(?=\s|$)/g, 'strasse')
+    .replace(/[^a-z0-9äöüé\s-]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Split "Graben 21, 1010 Wien" into street, house number and postcode
+export const parseAddressQuery = (query: string): ParsedAddress => {
+  let rest = query.replace(/\b(wien|vienna)\b/gi, ' ');
+
+  const postcodeMatch = rest.match(/\b1[0-2]\d0\b/);
+  const postcode = postcodeMatch ? postcodeMatch[0] : undefined;
+  if (postcodeMatch) rest = rest.replace(postcodeMatch[0], ' ');
+
+  rest = rest.replace(/[,;]/g, ' ').replace(/\s+/g, ' ').trim();
+
+  const housenumberMatch = rest.match(/\s(\d+[a-z]?(?:[-/]\d+[a-z]?)*)$/i);
+  const housenumber = housenumberMatch ? housenumberMatch[1].toLowerCase() : undefined;
+  if (housenumberMatch) rest = rest.slice(0, housenumberMatch.index).trim();
+
+  return { street: normaliseStreet(rest), housenumber, postcode };
+};
+
+const formatLabel = (street: string, housenumber?: string, postcode?: string): string =>
+  `${street}${housenumber ? ` ${housenumber}` : ''}${postcode ? `, ${postcode} Wien` : ''}`;
+
+// Geocoder over the addr:* tags of loaded buildings
+export const createLocalAddressProvider = (getBuildings: () => ViennaBuilding[]): GeocodingProvider => {
+  const search = (query: string, limit: number): GeocodeResult[] => {
+    const parsed = parseAddressQuery(query);
+    if (!parsed.street) return [];
+
+    const scored: { result: GeocodeResult; score: number }[] = [];
+    const seen = new Set<string>();
+
+    for (const building of getBuildings()) {
+      const { STRASSE, HAUSNUMMER, PLZ } = building.properties;
+      if (!STRASSE) continue;
+
+      const street = normaliseStreet(STRASSE);
+      if (!street.startsWith(parsed.street) && !street.includes(parsed.street)) continue;
+      if (parsed.postcode && PLZ && PLZ !== parsed.postcode) continue;
+
+      const housenumber = HAUSNUMMER?.toLowerCase();
+      if (parsed.housenumber && housenumber && !housenumber.startsWith(parsed.housenumber)) continue;
+
+      const label = formatLabel(STRASSE, HAUSNUMMER, PLZ);
+      if (seen.has(label)) continue;
+      seen.add(label);
+
+      // Exact street and house number first, then prefix matches
+      let score = street === parsed.street ? 2 : street.startsWith(parsed.street) ? 1 : 0;
+      if (parsed.housenumber && housenumber === parsed.housenumber) score += 2;
+
+      scored.push({
+        score,
+        result: {
+          label,
+          coordinates: geometryCentroid(building.geometry),
+          street: STRASSE,
+          housenumber: HAUSNUMMER,
+          postcode: PLZ,
+          source: 'OSM (loaded buildings)'
+        }
+      });
+    }
+
+    return scored
+      .sort((a, b) => b.score - a.score || a.result.label.localeCompare(b.result.label, 'de', { numeric: true }))
+      .slice(0, limit)
+      .map(entry => entry.result);
+  };
+
+  return {
+    name: 'local',
+    suggest: async (query, limit = 8) => search(query, limit),
+    geocode: async (query) => search(query, 1)[0] || null
+  };
+};
+
+interface AddressServiceFeature {
+  geometry?: { coordinates?: number[] };
+  properties?: Record<string, unknown>;
+}
+
+export interface OgdAddressProviderOptions {
+  fetch?: FetchLike;
+  baseUrl?: string;
+}
+
+// Geocoder backed by Vienna's OGD address service
+export const createOgdAddressProvider = (options: OgdAddressProviderOptions = {}): GeocodingProvider => {
+  const fetchImpl: FetchLike = options.fetch || ((input, init) => fetch(input, init));
+  const baseUrl = options.baseUrl || VIENNA_ADDRESS_SERVICE_URL;
+
+  const search = async (query: string, limit: number, signal?: AbortSignal): Promise<GeocodeResult[]> => {
+    const params = new URLSearchParams({ Address: query, crs: 'EPSG:4326' });
+    const response = await fetchImpl(`${baseUrl}?${params.toString()}`, { signal });
+
+    if (!response.ok) {
+      throw new Error(`Vienna address service failed: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const features: AddressServiceFeature[] = data.features || [];
+
+    return features
+      .filter(feature => Array.isArray(feature.geometry?.coordinates))
+      .slice(0, limit)
+      .map(feature => {
+        const properties = feature.properties || {};
+        const [lng, lat] = feature.geometry!.coordinates!;
+        const postcode = properties.PostalCode ? `${properties.PostalCode}` : undefined;
+        const address = `${properties.Adresse || query}`;
+
+        return {
+          label: postcode ? `${address}, ${postcode} Wien` : address,
+          coordinates: [lng, lat] as [number, number],
+          postcode,
+          source: 'Vienna OGD address service'
+        };
+      });
+  };
+
+  return {
+    name: 'ogd',
+    suggest: (query, limit = 8, signal) => search(query, limit, signal),
+    geocode: async (query, signal) => (await search(query, 1, signal))[0] || null
+  };
+};
+
+// Query providers in order: suggestions are merged, geocoding stops at the
+// first provider that resolves. Failing providers (e.g. offline) are skipped.
+export const createChainedGeocoder = (providers: GeocodingProvider[]): GeocodingProvider => ({
+  name: providers.map(provider => provider.name).join('+'),
+
+  suggest: async (query, limit = 8, signal) => {
+    const results: GeocodeResult[] = [];
+    const labels = new Set<string>();
+
+    for (const provider of providers) {
+      if (results.length >= limit) break;
+
+      try {
+        for (const result of await provider.suggest(query, limit - results.length, signal)) {
+          const key = result.label.toLowerCase();
+          if (labels.has(key)) continue;
+          labels.add(key);
+          results.push(result);
+        }
+      } catch (err) {
+        if (signal?.aborted) throw err;
+        console.warn(`Geocoding provider "${provider.name}" failed:`, err);
+      }
+    }
+
+    return results;
+  },
+
+  geocode: async (query, signal) => {
+    for (const provider of providers) {
+      try {
+        const result = await provider.geocode(query, signal);
+        if (result) return result;
+      } catch (err) {
+        if (signal?.aborted) throw err;
+        console.warn(`Geocoding provider "${provider.name}" failed:`, err);
+      }
+    }
+
+    return null;
+  }
+});
+
+// Local index first so search works offline, then the OGD address service
+export const createDefaultGeocoder = (
+  getBuildings: () => ViennaBuilding[],
+  remoteProvider: GeocodingProvider = createOgdAddressProvider()
+): GeocodingProvider => createChainedGeocoder([
+  createLocalAddressProvider(getBuildings),
+  remoteProvider
+]);
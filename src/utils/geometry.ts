@@ -0,0 +1,170 @@
+// Planar geometry helpers for small (building-scale) WGS84 polygons
+
+import { AreaGeometry } from '@/types/vienna';
+import { MapBounds } from '@/utils/mapBounds';
+
+const EARTH_RADIUS = 6378137; // metres (WGS84 semi-major axis)
+
+const toRadians = (deg: number): number => (deg * Math.PI) / 180;
+
+// Project a lng/lat position to metres on a local equirectangular plane.
+// Accurate to well under 1% for footprints the size of a city block.
+export const projectToMetres = (coord: number[], originLat: number): [number, number] => {
+  const x = toRadians(coord[0]) * EARTH_RADIUS * Math.cos(toRadians(originLat));
+  const y = toRadians(coord[1]) * EARTH_RADIUS;
+  return [x, y];
+};
+
+// Signed shoelace area of a ring in square metres (positive = counter-clockwise)
+export const signedRingArea = (ring: number[][]): number => {
+  if (ring.length < 3) return 0;
+
+  const originLat = ring.reduce((sum, coord) => sum + coord[1], 0) / ring.length;
+  const projected = ring.map(coord => projectToMetres(coord, originLat));
+
+  let area = 0;
+  for (let i = 0; i < projected.length; i++) {
+    const [x1, y1] = projected[i];
+    const [x2, y2] = projected[(i + 1) % projected.length];
+    area += x1 * y2 - x2 * y1;
+  }
+
+  return area / 2;
+};
+
+export const ringArea = (ring: number[][]): number => Math.abs(signedRingArea(ring));
+
+// Area of a polygon (outer ring minus holes) in square metres
+export const polygonArea = (coordinates: number[][][]): number => {
+  if (coordinates.length === 0) return 0;
+
+  const [outer, ...holes] = coordinates;
+  const holeArea = holes.reduce((sum, hole) => sum + ringArea(hole), 0);
+
+  return Math.max(0, ringArea(outer) - holeArea);
+};
+
+// Vertex average of a ring, ignoring the closing coordinate
+export const ringCentroid = (ring: number[][]): [number, number] => {
+  const closed = ring.length > 1 &&
+    ring[0][0] === ring[ring.length - 1][0] &&
+    ring[0][1] === ring[ring.length - 1][1];
+  const points = closed ? ring.slice(0, -1) : ring;
+
+  const sum = points.reduce((acc, coord) => [acc[0] + coord[0], acc[1] + coord[1]], [0, 0]);
+  return [sum[0] / points.length, sum[1] / points.length];
+};
+
+// Ray-casting point-in-ring test
+export const pointInRing = (point: number[], ring: number[][]): boolean => {
+  const [px, py] = point;
+  let inside = false;
+
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+
+    const intersects = (yi > py) !== (yj > py) &&
+      px < ((xj - xi) * (py - yi)) / (yj - yi) + xi;
+    if (intersects) inside = !inside;
+  }
+
+  return inside;
+};
+
+// Point inside the outer ring and outside every hole
+export const pointInPolygon = (point: number[], coordinates: number[][][]): boolean => {
+  if (coordinates.length === 0 || !pointInRing(point, coordinates[0])) return false;
+  return !coordinates.slice(1).some(hole => pointInRing(point, hole));
+};
+
+// Polygons of a Polygon or MultiPolygon geometry
+export const getPolygons = (geometry: AreaGeometry): number[][][][] =>
+  geometry.type === 'MultiPolygon' ? geometry.coordinates : [geometry.coordinates];
+
+// Area of all parts minus their holes, in square metres
+export const geometryArea = (geometry: AreaGeometry): number =>
+  getPolygons(geometry).reduce((sum, polygon) => sum + polygonArea(polygon), 0);
+
+export const pointInGeometry = (point: number[], geometry: AreaGeometry): boolean =>
+  getPolygons(geometry).some(polygon => pointInPolygon(point, polygon));
+
+// Outer ring of the largest part, used for labels and centroids
+export const getMainRing = (geometry: AreaGeometry): number[][] => {
+  const polygons = getPolygons(geometry);
+  if (polygons.length === 1) return polygons[0][0] || [];
+
+  let main: number[][] = [];
+  let mainArea = -1;
+  for (const polygon of polygons) {
+    const area = ringArea(polygon[0] || []);
+    if (area > mainArea) {
+      main = polygon[0];
+      mainArea = area;
+    }
+  }
+  return main;
+};
+
+export const geometryCentroid = (geometry: AreaGeometry): [number, number] =>
+  ringCentroid(getMainRing(geometry));
+
+// Bounding box of all outer rings
+export const geometryBounds = (geometry: AreaGeometry): MapBounds => {
+  const bounds: MapBounds = { north: -Infinity, south: Infinity, east: -Infinity, west: Infinity };
+
+  for (const polygon of getPolygons(geometry)) {
+    for (const [lng, lat] of polygon[0] || []) {
+      if (lat > bounds.north) bounds.north = lat;
+      if (lat < bounds.south) bounds.south = lat;
+      if (lng > bounds.east) bounds.east = lng;
+      if (lng < bounds.west) bounds.west = lng;
+    }
+  }
+
+  return bounds;
+};
+
+// Vertices of every ring, without the closing coordinates
+export const countVertices = (geometry: AreaGeometry): number =>
+  getPolygons(geometry).reduce((sum, polygon) =>
+    sum + polygon.reduce((ringSum, ring) => ringSum + Math.max(0, ring.length - 1), 0), 0);
+
+// Short stable key of a geometry's coordinates (32-bit FNV-1a), for features
+// that come without an id
+export const geometryHash = (coordinates: unknown): string => {
+  const text = JSON.stringify(coordinates);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+// Orient a ring counter-clockwise (outer rings) or clockwise (holes), as
+// RFC 7946 recommends
+export const rewindRing = (ring: number[][], counterClockwise: boolean): number[][] =>
+  (signedRingArea(ring) > 0) === counterClockwise ? ring : [...ring].reverse();
+
+// Smallest polygon feature containing the point (so a courtyard building wins
+// over the surrounding block it also lies in)
+export const findFeatureAtPoint = <T extends { geometry: AreaGeometry }>(
+  features: T[],
+  point: number[]
+): T | null => {
+  let best: T | null = null;
+  let bestArea = Infinity;
+
+  for (const feature of features) {
+    if (!pointInGeometry(point, feature.geometry)) continue;
+
+    const area = geometryArea(feature.geometry);
+    if (area < bestArea) {
+      best = feature;
+      bestArea = area;
+    }
+  }
+
+  return best;
+};
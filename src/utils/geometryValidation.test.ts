@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import { AreaGeometry } from '@/types/vienna';
+import { getPolygons, ringArea, signedRingArea } from '@/utils/geometry';
+import { MAX_RING_VERTICES, repairGeometry, simplifyRing } from '@/utils/geometryValidation';
+import { convertOSMToGeoJSON } from '@/utils/osm';
+
+// Point x metres east and y metres north of a spot in Vienna
+const at = (x: number, y: number): number[] => [16.37 + x / 74200, 48.2 + y / 111320];
+
+const ring = (...points: [number, number][]): number[][] => {
+  const coords = points.map(([x, y]) => at(x, y));
+  return [...coords, coords[0]];
+};
+
+const polygon = (...rings: number[][][]): AreaGeometry => ({ type: 'Polygon', coordinates: rings });
+
+const circle = (radius: number, vertices: number): number[][] => ring(
+  ...Array.from({ length: vertices }, (_, i): [number, number] => [
+    radius * Math.cos((2 * Math.PI * i) / vertices),
+    radius * Math.sin((2 * Math.PI * i) / vertices)
+  ])
+);
+
+const codes = (issues: { code: string }[]) => issues.map(issue => issue.code);
+
+describe('repairGeometry', () => {
+  it('leaves a valid footprint as it is', () => {
+    const square = ring([0, 0], [20, 0], [20, 20], [0, 20]);
+    const { geometry, issues } = repairGeometry(polygon(square));
+
+    expect(geometry).toEqual(polygon(square));
+    expect(issues).toEqual([]);
+  });
+
+  it('splits a bow-tie ring into two polygons at the crossing', () => {
+    const { geometry, issues } = repairGeometry(polygon(ring([0, 0], [20, 20], [20, 0], [0, 20])));
+
+    expect(geometry?.type).toBe('MultiPolygon');
+    const parts = getPolygons(geometry!);
+    expect(parts).toHaveLength(2);
+    // Two triangles of 100 m² each, outer rings counter-clockwise
+    parts.forEach(([outer]) => {
+      expect(outer).toHaveLength(4);
+      expect(ringArea(outer)).toBeCloseTo(100, 0);
+      expect(signedRingArea(outer)).toBeGreaterThan(0);
+    });
+    expect(codes(issues)).toContain('self-intersection');
+  });
+
+  it('splits a ring that passes through the same vertex twice', () => {
+    // Two squares joined at one corner, drawn as a single ring
+    const figureEight = ring([0, 0], [10, 0], [10, 10], [20, 10], [20, 20], [10, 20], [10, 10], [0, 10]);
+    const { geometry, issues } = repairGeometry(polygon(figureEight));
+
+    expect(getPolygons(geometry!)).toHaveLength(2);
+    getPolygons(geometry!).forEach(([outer]) => expect(ringArea(outer)).toBeCloseTo(100, 0));
+    expect(issues.find(issue => issue.code === 'self-intersection')?.message).toContain('touches itself');
+  });
+
+  it('removes repeated consecutive vertices and closes the ring', () => {
+    const open = [at(0, 0), at(20, 0), at(20, 0), at(20, 20), at(0, 20)];
+    const { geometry, issues } = repairGeometry(polygon(open));
+
+    expect(getPolygons(geometry!)[0][0]).toHaveLength(5);
+    expect(codes(issues)).toEqual(expect.arrayContaining(['duplicate-vertices', 'unclosed-ring']));
+  });
+
+  it('drops sliver rings and keeps the rest', () => {
+    const square = ring([0, 0], [20, 0], [20, 20], [0, 20]);
+    // 1 m wide and 1 km long
+    const sliver = ring([100, 0], [1100, 0], [1100, 1], [100, 1]);
+    const { geometry, issues } = repairGeometry({ type: 'MultiPolygon', coordinates: [[square], [sliver]] });
+
+    expect(geometry).toEqual(polygon(square));
+    expect(codes(issues)).toContain('sliver');
+  });
+
+  it('drops a footprint that is only a sliver', () => {
+    const { geometry, issues } = repairGeometry(polygon(ring([0, 0], [1000, 0], [1000, 1], [0, 1])));
+
+    expect(geometry).toBeNull();
+    expect(codes(issues)).toContain('sliver');
+  });
+
+  it(`simplifies rings over ${MAX_RING_VERTICES} vertices`, () => {
+    const round = circle(50, 2500);
+    const { geometry, issues } = repairGeometry(polygon(round));
+    const [outer] = getPolygons(geometry!)[0];
+
+    expect(outer.length - 1).toBeLessThanOrEqual(MAX_RING_VERTICES);
+    // Within 0.2 m of the circle, so the area barely changes
+    expect(Math.abs(ringArea(outer) - ringArea(round)) / ringArea(round)).toBeLessThan(0.01);
+    expect(codes(issues)).toContain('simplified');
+  });
+});
+
+describe('simplifyRing', () => {
+  it('removes vertices within the tolerance of a straight edge', () => {
+    const square = ring([0, 0], [5, 0.05], [10, 0], [10, 10], [0, 10]);
+
+    expect(simplifyRing(square)).toEqual(ring([0, 0], [10, 0], [10, 10], [0, 10]));
+  });
+
+  it('keeps vertices farther from the edge than the tolerance', () => {
+    const notched = ring([0, 0], [5, 1], [10, 0], [10, 10], [0, 10]);
+
+    expect(simplifyRing(notched)).toEqual(notched);
+  });
+});
+
+describe('convertOSMToGeoJSON diagnostics', () => {
+  it('reports features that cannot be repaired as dropped', () => {
+    const [a, b] = [at(0, 0), at(20, 0)];
+    const { features, diagnostics } = convertOSMToGeoJSON({
+      elements: [{
+        type: 'way',
+        id: 42,
+        tags: { building: 'yes', 'addr:street': 'Graben', 'addr:housenumber': '1' },
+        geometry: [{ lon: a[0], lat: a[1] }, { lon: b[0], lat: b[1] }]
+      }]
+    });
+
+    expect(features).toEqual([]);
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({ featureId: 'way/42', label: 'Graben 1', dropped: true });
+    expect(codes(diagnostics[0].issues)).toContain('too-few-vertices');
+  });
+
+  it('reports features outside Vienna as dropped', () => {
+    const { features, diagnostics } = convertOSMToGeoJSON({
+      elements: [{
+        type: 'way',
+        id: 7,
+        tags: { building: 'yes' },
+        geometry: [{ lon: 2.35, lat: 48.85 }, { lon: 2.36, lat: 48.85 }, { lon: 2.36, lat: 48.86 }, { lon: 2.35, lat: 48.85 }]
+      }]
+    });
+
+    expect(features).toEqual([]);
+    expect(diagnostics[0]).toMatchObject({ featureId: 'way/7', dropped: true });
+    expect(codes(diagnostics[0].issues)).toEqual(['out-of-range']);
+  });
+});
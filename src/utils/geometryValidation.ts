@@ -0,0 +1,357 @@
+// Validation and repair of footprint geometries
+//
+// OSM footprints regularly contain duplicate nodes, unclosed or wrongly wound
+// rings, self-intersections (bow ties, rings touching themselves) and
+// degenerate slivers. Instead of dropping such features, they are repaired
+// and every change is recorded as a diagnostic for the feature.
+
+import { AreaGeometry } from '@/types/vienna';
+import { getPolygons, pointInRing, projectToMetres, ringArea, ringCentroid, rewindRing, signedRingArea } from '@/utils/geometry';
+
+export type GeometryIssueCode =
+  | 'unclosed-ring'
+  | 'duplicate-vertices'
+  | 'winding-order'
+  | 'too-few-vertices'
+  | 'self-intersection'
+  | 'sliver'
+  | 'simplified'
+  | 'orphan-inner-ring'
+  | 'out-of-range'
+  | 'conversion-error';
+
+export interface GeometryIssue {
+  code: GeometryIssueCode;
+  // 'info' for routine normalisation, 'warning' when the shape changed
+  severity: 'info' | 'warning';
+  message: string;
+}
+
+export interface FeatureDiagnostics {
+  featureId: string;
+  label: string;
+  issues: GeometryIssue[];
+  dropped: boolean;
+}
+
+export interface GeometryRepairResult {
+  geometry: AreaGeometry | null; // null when nothing valid is left
+  issues: GeometryIssue[];
+}
+
+// Rings below this area (m²) are dropped as degenerate
+const MIN_RING_AREA = 0.5;
+// Isoperimetric ratio 4πA/P² below which a ring counts as a sliver
+// (a 1 m wide strip 1 km long is ~0.003; a 200 m × 3 m shed is ~0.05)
+const SLIVER_COMPACTNESS = 0.005;
+// Rings with more vertices than this are simplified
+export const MAX_RING_VERTICES = 2000;
+// Douglas-Peucker tolerance in metres used for simplification
+const SIMPLIFY_TOLERANCE = 0.2;
+
+const warning = (code: GeometryIssueCode, message: string): GeometryIssue => ({ code, severity: 'warning', message });
+const info = (code: GeometryIssueCode, message: string): GeometryIssue => ({ code, severity: 'info', message });
+
+const samePoint = (a: number[], b: number[]): boolean => a[0] === b[0] && a[1] === b[1];
+
+const isClosed = (ring: number[][]): boolean =>
+  ring.length > 1 && samePoint(ring[0], ring[ring.length - 1]);
+
+const ringPerimeter = (ring: number[][]): number => {
+  const originLat = ringCentroid(ring)[1];
+  let perimeter = 0;
+  for (let i = 1; i < ring.length; i++) {
+    const [x1, y1] = projectToMetres(ring[i - 1], originLat);
+    const [x2, y2] = projectToMetres(ring[i], originLat);
+    perimeter += Math.hypot(x2 - x1, y2 - y1);
+  }
+  return perimeter;
+};
+
+export const isSliver = (ring: number[][]): boolean => {
+  const area = ringArea(ring);
+  if (area < MIN_RING_AREA) return true;
+
+  const perimeter = ringPerimeter(ring);
+  return perimeter > 0 && (4 * Math.PI * area) / (perimeter * perimeter) < SLIVER_COMPACTNESS;
+};
+
+const removeDuplicateVertices = (ring: number[][]): number[][] =>
+  ring.filter((coord, i) => i === 0 || !samePoint(coord, ring[i - 1]));
+
+// Intersection of segments a1-a2 and b1-b2 as [point, ta, tb], excluding
+// shared end points
+const segmentIntersection = (
+  a1: number[], a2: number[], b1: number[], b2: number[]
+): [number[], number, number] | null => {
+  const dax = a2[0] - a1[0];
+  const day = a2[1] - a1[1];
+  const dbx = b2[0] - b1[0];
+  const dby = b2[1] - b1[1];
+
+  const denominator = dax * dby - day * dbx;
+  if (denominator === 0) return null; // parallel or collinear
+
+  const ta = ((b1[0] - a1[0]) * dby - (b1[1] - a1[1]) * dbx) / denominator;
+  const tb = ((b1[0] - a1[0]) * day - (b1[1] - a1[1]) * dax) / denominator;
+  if (ta < 0 || ta > 1 || tb < 0 || tb > 1) return null;
+
+  const atEndA = ta === 0 || ta === 1;
+  const atEndB = tb === 0 || tb === 1;
+  if (atEndA && atEndB) return null; // segments meeting at a vertex
+
+  // Snap to an existing vertex so the ring can be split there
+  const point = atEndA ? (ta === 0 ? a1 : a2)
+    : atEndB ? (tb === 0 ? b1 : b2)
+    : [a1[0] + ta * dax, a1[1] + ta * day];
+
+  return [point, ta, tb];
+};
+
+const segmentBoxesOverlap = (a1: number[], a2: number[], b1: number[], b2: number[]): boolean =>
+  Math.max(a1[0], a2[0]) >= Math.min(b1[0], b2[0]) &&
+  Math.max(b1[0], b2[0]) >= Math.min(a1[0], a2[0]) &&
+  Math.max(a1[1], a2[1]) >= Math.min(b1[1], b2[1]) &&
+  Math.max(b1[1], b2[1]) >= Math.min(a1[1], a2[1]);
+
+// Insert a vertex at every crossing of non-adjacent segments of a closed ring.
+// Returns the ring unchanged when it is simple.
+const nodeRing = (ring: number[][]): { ring: number[][]; crossings: number } => {
+  const segments = ring.length - 1;
+  const inserts: { t: number; point: number[] }[][] = Array.from({ length: segments }, () => []);
+  let crossings = 0;
+
+  for (let i = 0; i < segments; i++) {
+    for (let j = i + 2; j < segments; j++) {
+      if (i === 0 && j === segments - 1) continue; // adjacent through the closing vertex
+
+      const [a1, a2, b1, b2] = [ring[i], ring[i + 1], ring[j], ring[j + 1]];
+      if (!segmentBoxesOverlap(a1, a2, b1, b2)) continue;
+
+      const hit = segmentIntersection(a1, a2, b1, b2);
+      if (!hit) continue;
+
+      const [point, ta, tb] = hit;
+      crossings++;
+      if (ta > 0 && ta < 1) inserts[i].push({ t: ta, point });
+      if (tb > 0 && tb < 1) inserts[j].push({ t: tb, point });
+    }
+  }
+
+  if (crossings === 0) return { ring, crossings };
+
+  const noded: number[][] = [];
+  for (let i = 0; i < segments; i++) {
+    noded.push(ring[i]);
+    inserts[i].sort((a, b) => a.t - b.t).forEach(({ point }) => noded.push(point));
+  }
+  noded.push(noded[0]);
+
+  return { ring: removeDuplicateVertices(noded), crossings };
+};
+
+// Split a noded ring into simple loops at every repeated vertex
+const splitLoops = (ring: number[][]): number[][][] => {
+  const loops: number[][][] = [];
+  const path: number[][] = [];
+  const positions = new Map<string, number>();
+
+  for (const point of ring.slice(0, -1)) {
+    const key = `${point[0]},${point[1]}`;
+    const seen = positions.get(key);
+
+    if (seen !== undefined) {
+      const loop = path.splice(seen);
+      loop.forEach(coord => positions.delete(`${coord[0]},${coord[1]}`));
+      loops.push([...loop, loop[0]]);
+    }
+
+    positions.set(key, path.length);
+    path.push(point);
+  }
+
+  if (path.length > 0) loops.push([...path, path[0]]);
+  return loops.filter(loop => loop.length >= 4);
+};
+
+// Ramer-Douglas-Peucker on a closed ring, measured in metres
+export const simplifyRing = (ring: number[][], tolerance: number = SIMPLIFY_TOLERANCE): number[][] => {
+  if (ring.length <= 4) return ring;
+
+  const originLat = ringCentroid(ring)[1];
+  const projected = ring.map(coord => projectToMetres(coord, originLat));
+  const keep = new Array<boolean>(ring.length).fill(false);
+  keep[0] = true;
+  keep[ring.length - 1] = true;
+
+  // Split at the vertex farthest from the first one, so the closed ring has
+  // two open halves
+  let far = 1;
+  let farDistance = -1;
+  for (let i = 1; i < ring.length - 1; i++) {
+    const distance = Math.hypot(projected[i][0] - projected[0][0], projected[i][1] - projected[0][1]);
+    if (distance > farDistance) {
+      far = i;
+      farDistance = distance;
+    }
+  }
+  keep[far] = true;
+
+  const stack: [number, number][] = [[0, far], [far, ring.length - 1]];
+  while (stack.length > 0) {
+    const [start, end] = stack.pop()!;
+    const [x1, y1] = projected[start];
+    const [x2, y2] = projected[end];
+    const length = Math.hypot(x2 - x1, y2 - y1);
+
+    let index = -1;
+    let maxDistance = tolerance;
+    for (let i = start + 1; i < end; i++) {
+      const [x, y] = projected[i];
+      const distance = length === 0
+        ? Math.hypot(x - x1, y - y1)
+        : Math.abs((x2 - x1) * (y1 - y) - (x1 - x) * (y2 - y1)) / length;
+      if (distance > maxDistance) {
+        index = i;
+        maxDistance = distance;
+      }
+    }
+
+    if (index !== -1) {
+      keep[index] = true;
+      stack.push([start, index], [index, end]);
+    }
+  }
+
+  return ring.filter((_, i) => keep[i]);
+};
+
+// Clean one ring and split it into simple loops
+const repairRing = (raw: number[][], label: string, issues: GeometryIssue[]): number[][][] => {
+  let ring = removeDuplicateVertices(raw);
+  if (ring.length < raw.length) {
+    issues.push(info('duplicate-vertices', `${label}: removed ${raw.length - ring.length} duplicate vertices`));
+  }
+
+  if (ring.length > 0 && !isClosed(ring)) {
+    ring = [...ring, ring[0]];
+    issues.push(info('unclosed-ring', `${label}: closed the ring`));
+  }
+
+  if (ring.length < 4) {
+    issues.push(warning('too-few-vertices', `${label}: dropped, fewer than 3 distinct vertices`));
+    return [];
+  }
+
+  if (ring.length - 1 > MAX_RING_VERTICES) {
+    const simplified = simplifyRing(ring);
+    issues.push(warning('simplified',
+      `${label}: simplified from ${ring.length - 1} to ${simplified.length - 1} vertices`));
+    ring = simplified;
+  }
+
+  const { ring: noded, crossings } = nodeRing(ring);
+  // Rings passing through the same vertex twice touch themselves without crossing
+  const touches = new Set(noded.slice(0, -1).map(coord => `${coord[0]},${coord[1]}`)).size < noded.length - 1;
+  let loops = crossings > 0 || touches ? splitLoops(noded) : [ring];
+
+  if (crossings > 0 || touches) {
+    const problem = crossings > 0
+      ? `${crossings} self-intersection${crossings > 1 ? 's' : ''}`
+      : 'touches itself';
+    issues.push(warning('self-intersection',
+      `${label}: ${problem}, split into ${loops.length} simple ring${loops.length > 1 ? 's' : ''}`));
+  }
+
+  const slivers = loops.filter(isSliver).length;
+  if (slivers > 0) {
+    issues.push(warning('sliver', `${label}: dropped ${slivers} sliver ring${slivers > 1 ? 's' : ''}`));
+    loops = loops.filter(loop => !isSliver(loop));
+  }
+
+  return loops;
+};
+
+interface RepairedPart {
+  ring: number[][];
+  area: number;
+  holes: number[][][];
+}
+
+const smallestContaining = (parts: RepairedPart[], ring: number[][]): RepairedPart | undefined =>
+  parts
+    .filter(part => pointInRing(ringCentroid(ring), part.ring))
+    .sort((a, b) => a.area - b.area)[0];
+
+// Repair a Polygon or MultiPolygon: clean and split rings, drop slivers,
+// re-nest holes and orient rings as RFC 7946 recommends
+export const repairGeometry = (geometry: AreaGeometry): GeometryRepairResult => {
+  const issues: GeometryIssue[] = [];
+  const polygons = getPolygons(geometry);
+  const parts: RepairedPart[] = [];
+  let wrongWinding = 0;
+
+  polygons.forEach((polygon, polygonIndex) => {
+    const part = polygons.length > 1 ? `Part ${polygonIndex + 1}` : 'Footprint';
+    const [outerRing, ...innerRings] = polygon;
+    if (!outerRing) return;
+
+    // Loops split off the outer ring can lie inside another one (a ring
+    // touching itself around a courtyard); those become holes
+    const outers = repairRing(outerRing, `${part} outer ring`, issues)
+      .map(loop => ({ ring: loop, area: ringArea(loop), holes: [] as number[][][] }))
+      .sort((a, b) => b.area - a.area);
+
+    const polygonParts: RepairedPart[] = [];
+    for (const outer of outers) {
+      const container = smallestContaining(polygonParts, outer.ring);
+      if (container) {
+        if (signedRingArea(outer.ring) > 0) wrongWinding++;
+        container.holes.push(outer.ring);
+      } else {
+        if (signedRingArea(outer.ring) < 0) wrongWinding++;
+        polygonParts.push(outer);
+      }
+    }
+
+    innerRings.forEach((raw, index) => {
+      for (const loop of repairRing(raw, `${part} courtyard ${index + 1}`, issues)) {
+        if (signedRingArea(loop) > 0) wrongWinding++;
+
+        const container = smallestContaining(polygonParts, loop);
+        if (container) {
+          container.holes.push(loop);
+        } else {
+          issues.push(warning('orphan-inner-ring', `${part} courtyard ${index + 1}: outside the outer ring, dropped`));
+        }
+      }
+    });
+
+    parts.push(...polygonParts);
+  });
+
+  if (wrongWinding > 0) {
+    issues.push(info('winding-order', `Reoriented ${wrongWinding} ring${wrongWinding > 1 ? 's' : ''}`));
+  }
+
+  if (parts.length === 0) return { geometry: null, issues };
+
+  const coordinates = parts.map(({ ring, holes }) => [
+    rewindRing(ring, true),
+    ...holes.map(hole => rewindRing(hole, false))
+  ]);
+
+  return {
+    geometry: coordinates.length === 1
+      ? { type: 'Polygon', coordinates: coordinates[0] }
+      : { type: 'MultiPolygon', coordinates },
+    issues
+  };
+};
+
+// Issues without repairing, e.g. for checking data from other sources
+export const validateGeometry = (geometry: AreaGeometry): GeometryIssue[] =>
+  repairGeometry(geometry).issues;
+
+export const hasWarnings = (diagnostics: FeatureDiagnostics): boolean =>
+  diagnostics.dropped || diagnostics.issues.some(issue => issue.severity === 'warning');
@@ -0,0 +1,53 @@
+// "Ghost" massing of the permitted but unbuilt volume above a building
+//
+// The selected footprint is extruded from the top of the existing building
+// up to the permitted height, one slab per possible storey, so the rooftop
+// addition (Dachgeschossausbau) can be seen in 3D. Only the permitted
+// building height is modelled, not the roof allowed above it.
+
+import { AreaGeometry, FeatureCollection, ViennaBuilding } from '@/types/vienna';
+import { DevelopmentPotential } from '@/utils/developmentPotential';
+import { getBuildingHeights } from '@/utils/buildingHeight';
+
+export interface GhostStorey {
+  type: 'Feature';
+  id: string;
+  properties: {
+    STOCKWERK: number; // 1 for the first storey above the existing building
+    BASIS: number; // metres
+    HOEHE: number; // metres
+  };
+  geometry: AreaGeometry;
+}
+
+// Slabs thinner than this (e.g. a few centimetres of rounding) are not shown
+const MIN_SLAB_HEIGHT = 0.5;
+
+// Height of the existing building as drawn by the 3D building layer
+export const getExistingHeight = (building: ViennaBuilding, potential: DevelopmentPotential): number =>
+  getBuildingHeights(building.properties, potential.storeyHeight).height;
+
+export const createGhostMassing = (
+  building: ViennaBuilding,
+  potential: DevelopmentPotential
+): FeatureCollection<GhostStorey> => {
+  const top = potential.permittedHeight.value;
+  const base = getExistingHeight(building, potential);
+  if (top === null || top - base < MIN_SLAB_HEIGHT) return { type: 'FeatureCollection', features: [] };
+
+  const features: GhostStorey[] = [];
+  for (let bottom = base, storey = 1; top - bottom >= MIN_SLAB_HEIGHT; bottom += potential.storeyHeight, storey++) {
+    features.push({
+      type: 'Feature',
+      id: `${building.id}/ghost/${storey}`,
+      properties: {
+        STOCKWERK: storey,
+        BASIS: bottom,
+        HOEHE: Math.min(bottom + potential.storeyHeight, top)
+      },
+      geometry: building.geometry
+    });
+  }
+
+  return { type: 'FeatureCollection', features };
+};
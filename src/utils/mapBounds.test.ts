@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BUILDING_TILE_ZOOM,
+  MAX_TILES_FOR_BOUNDS,
+  MapBounds,
+  countTilesForBounds,
+  tileForPoint,
+  tileToKey,
+  tilesForBounds
+} from '@/utils/mapBounds';
+
+// About 1 km around Stephansplatz
+const CITY_CENTRE: MapBounds = { west: 16.366, south: 48.204, east: 16.380, north: 48.212 };
+// Whole world, as seen zoomed far out
+const WORLD: MapBounds = { west: -180, south: -85, east: 180, north: 85 };
+
+describe('tilesForBounds', () => {
+  it('returns every tile of a small area, nearest to the centre first', () => {
+    const tiles = tilesForBounds(CITY_CENTRE, BUILDING_TILE_ZOOM);
+
+    expect(tiles).toHaveLength(countTilesForBounds(CITY_CENTRE, BUILDING_TILE_ZOOM));
+    expect(new Set(tiles.map(tileToKey)).size).toBe(tiles.length);
+    expect(tileToKey(tiles[0])).toBe(tileToKey(tileForPoint(16.373, 48.208, BUILDING_TILE_ZOOM)));
+  });
+
+  it('clamps large ranges to the tiles around the centre', () => {
+    expect(countTilesForBounds(WORLD, BUILDING_TILE_ZOOM)).toBeGreaterThan(1e9);
+
+    const tiles = tilesForBounds(WORLD, BUILDING_TILE_ZOOM);
+    expect(tiles.length).toBeLessThanOrEqual(MAX_TILES_FOR_BOUNDS);
+    expect(tiles.length).toBeGreaterThan(MAX_TILES_FOR_BOUNDS / 2);
+
+    const centre = 2 ** (BUILDING_TILE_ZOOM - 1);
+    expect(Math.abs(tiles[0].x - centre)).toBeLessThanOrEqual(1);
+    expect(Math.abs(tiles[0].y - centre)).toBeLessThanOrEqual(1);
+  });
+
+  it('gives a narrow range the whole cap along its long side', () => {
+    const strip: MapBounds = { ...WORLD, south: 48.2, north: 48.2005 };
+    const tiles = tilesForBounds(strip, BUILDING_TILE_ZOOM, 100);
+    const rows = new Set(tiles.map(tile => tile.y));
+
+    expect(tiles.length).toBeLessThanOrEqual(100);
+    expect(tiles.length / rows.size).toBeGreaterThan(10);
+  });
+});
@@ -1,5 +1,7 @@
 // Utility functions for map bounds calculations and caching
 
+import { MapFeature, ViennaZoning } from '@/types/vienna';
+
 export interface MapBounds {
   north: number;
   south: number;
@@ -7,12 +9,143 @@ export interface MapBounds {
   west: number;
 }
 
+// Current camera of the map panel
+export interface MapViewState {
+  center: [number, number]; // [lng, lat]
+  zoom: number;
+  bounds: MapBounds;
+}
+
 export interface TileKey {
   x: number;
   y: number;
   zoom: number;
 }
 
+// Buildings are loaded and cached per slippy-map tile at this zoom
+// (about 400 m square in Vienna), so pans only fetch the tiles that are new
+export const BUILDING_TILE_ZOOM = 16;
+
+// Zoning is loaded per tile at this zoom (about 1.6 km square in Vienna);
+// its polygons are whole blocks, so coarser tiles keep requests few
+export const ZONING_TILE_ZOOM = 14;
+
+export const tileToKey = (tile: TileKey): string => `${tile.zoom}/${tile.x}/${tile.y}`;
+
+export const keyToTile = (key: string): TileKey => {
+  const [zoom, x, y] = key.split('/').map(Number);
+  return { x, y, zoom };
+};
+
+const lngToTileX = (lng: number, zoom: number): number =>
+  Math.floor(((lng + 180) / 360) * 2 ** zoom);
+
+const latToTileY = (lat: number, zoom: number): number => {
+  const rad = (lat * Math.PI) / 180;
+  return Math.floor(((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * 2 ** zoom);
+};
+
+const tileYToLat = (y: number, zoom: number): number => {
+  const n = Math.PI - (2 * Math.PI * y) / 2 ** zoom;
+  return (180 / Math.PI) * Math.atan(Math.sinh(n));
+};
+
+export const tileForPoint = (lng: number, lat: number, zoom: number): TileKey => ({
+  x: lngToTileX(lng, zoom),
+  y: latToTileY(lat, zoom),
+  zoom
+});
+
+export const tileToBounds = (tile: TileKey): MapBounds => ({
+  north: tileYToLat(tile.y, tile.zoom),
+  south: tileYToLat(tile.y + 1, tile.zoom),
+  west: (tile.x / 2 ** tile.zoom) * 360 - 180,
+  east: ((tile.x + 1) / 2 ** tile.zoom) * 360 - 180
+});
+
+// Below this zoom the viewport spans too many building tiles to load
+export const MIN_BUILDING_ZOOM = 14;
+
+// Most tiles tilesForBounds returns; larger ranges are clamped to the tiles
+// around their centre instead of being enumerated
+export const MAX_TILES_FOR_BOUNDS = 4096;
+
+interface TileRange {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+const tileRange = (bounds: MapBounds, zoom: number): TileRange => ({
+  minX: lngToTileX(bounds.west, zoom),
+  maxX: lngToTileX(bounds.east, zoom),
+  minY: latToTileY(bounds.north, zoom),
+  maxY: latToTileY(bounds.south, zoom)
+});
+
+// Number of tiles touching the bounds, without enumerating them
+export const countTilesForBounds = (bounds: MapBounds, zoom: number): number => {
+  const { minX, maxX, minY, maxY } = tileRange(bounds, zoom);
+  return (maxX - minX + 1) * (maxY - minY + 1);
+};
+
+// Shrink one axis of a range to at most `size` tiles around its centre
+const clampAxis = (min: number, max: number, size: number): [number, number] => {
+  if (max - min + 1 <= size) return [min, max];
+  const start = Math.floor((min + max + 1 - size) / 2);
+  return [start, start + size - 1];
+};
+
+// All tiles touching the bounds, nearest to the centre first. Ranges over
+// maxTiles are clamped to a square of tiles around the centre.
+export const tilesForBounds = (bounds: MapBounds, zoom: number, maxTiles = MAX_TILES_FOR_BOUNDS): TileKey[] => {
+  let { minX, maxX, minY, maxY } = tileRange(bounds, zoom);
+  if ((maxX - minX + 1) * (maxY - minY + 1) > maxTiles) {
+    const side = Math.max(1, Math.floor(Math.sqrt(maxTiles)));
+    // A narrow axis leaves the other one more room
+    const width = Math.min(maxX - minX + 1, Math.max(side, Math.floor(maxTiles / (maxY - minY + 1))));
+    [minX, maxX] = clampAxis(minX, maxX, width);
+    [minY, maxY] = clampAxis(minY, maxY, Math.floor(maxTiles / width));
+  }
+  const centreX = (minX + maxX) / 2;
+  const centreY = (minY + maxY) / 2;
+
+  const tiles: TileKey[] = [];
+  for (let x = minX; x <= maxX; x++) {
+    for (let y = minY; y <= maxY; y++) {
+      tiles.push({ x, y, zoom });
+    }
+  }
+
+  return tiles.sort((a, b) =>
+    Math.hypot(a.x - centreX, a.y - centreY) - Math.hypot(b.x - centreX, b.y - centreY)
+  );
+};
+
+// Merge tiles into as few rectangles as possible along each row, to keep
+// Overpass queries short
+export const tilesToBounds = (tiles: TileKey[]): MapBounds[] => {
+  const rows = new Map<number, TileKey[]>();
+  tiles.forEach(tile => rows.set(tile.y, [...(rows.get(tile.y) || []), tile]));
+
+  const result: MapBounds[] = [];
+  for (const row of rows.values()) {
+    row.sort((a, b) => a.x - b.x);
+
+    let runStart = row[0];
+    row.forEach((tile, i) => {
+      const next = row[i + 1];
+      if (next && next.x === tile.x + 1) return;
+
+      result.push({ ...tileToBounds(runStart), east: tileToBounds(tile).east });
+      if (next) runStart = next;
+    });
+  }
+
+  return result;
+};
+
 // Convert map bounds to string key for caching
 export const boundsToKey = (bounds: MapBounds): string => {
   return `${bounds.north.toFixed(4)},${bounds.south.toFixed(4)},${bounds.east.toFixed(4)},${bounds.west.toFixed(4)}`;
@@ -113,4 +246,50 @@ class BoundsCache {
   }
 }
 
-export const buildingCache = new BoundsCache();
\ No newline at end of file
+// In-memory LRU cache of per-tile data, keyed exactly by tile key (which
+// callers may prefix, e.g. with the feature class)
+export class TileCache<T> {
+  private cache = new Map<string, { data: T; timestamp: number }>();
+
+  constructor(private maxSize: number = 400) {}
+
+  set(key: string, data: T): void {
+    this.cache.delete(key);
+
+    if (this.cache.size >= this.maxSize) {
+      const firstKey = this.cache.keys().next().value;
+      this.cache.delete(firstKey);
+    }
+
+    this.cache.set(key, { data, timestamp: Date.now() });
+  }
+
+  get(key: string): T | null {
+    const cached = this.cache.get(key);
+
+    if (cached) {
+      // Move to end (LRU)
+      this.cache.delete(key);
+      this.cache.set(key, cached);
+      return cached.data;
+    }
+
+    return null;
+  }
+
+  has(key: string): boolean {
+    return this.cache.has(key);
+  }
+
+  clear(): void {
+    this.cache.clear();
+  }
+
+  size(): number {
+    return this.cache.size;
+  }
+}
+
+export const buildingTileCache = new TileCache<MapFeature[]>();
+export const zoningTileCache = new TileCache<ViennaZoning[]>(200);
+export const buildingAgeCache = new BoundsCache();
\ No newline at end of file
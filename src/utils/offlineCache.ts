@@ -0,0 +1,316 @@
+// Persistent cache of Overpass and WFS responses, so previously visited
+// areas load without the network and keep working offline.
+//
+// Entries are split into a small metadata record (for quotas, expiry and the
+// status view) and the data itself, so housekeeping never reads the data.
+// Expired entries are kept until the quota needs the space: callers use them
+// when the network request fails.
+
+import { MapBounds, boundsOverlap } from '@/utils/mapBounds';
+import { isIndexedDbAvailable, openDatabase, requestToPromise, transactionDone } from '@/utils/indexedDb';
+
+export type CacheNamespace = 'buildings' | 'zoning' | 'buildingAges' | 'districts';
+
+export interface CachePolicy {
+  label: string;
+  ttlMs: number;
+  maxBytes: number;
+}
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const MB = 1024 * 1024;
+
+export const CACHE_POLICIES: Record<CacheNamespace, CachePolicy> = {
+  buildings: { label: 'Buildings (OSM)', ttlMs: 7 * DAY, maxBytes: 150 * MB },
+  zoning: { label: 'Zoning plan (WFS)', ttlMs: 7 * DAY, maxBytes: 50 * MB },
+  buildingAges: { label: 'Building age (WFS)', ttlMs: 30 * DAY, maxBytes: 50 * MB },
+  districts: { label: 'Districts (WFS)', ttlMs: 30 * DAY, maxBytes: 10 * MB }
+};
+
+// Bump when the shape of cached data changes (e.g. the OSM conversion), so
+// entries written by older versions are discarded instead of read
+export const CACHE_DATA_VERSION = 5;
+
+const DB_NAME = 'vienna-building-advisor-cache';
+const DB_VERSION = 1;
+const META_STORE = 'meta';
+const DATA_STORE = 'data';
+
+interface CacheMeta {
+  key: string;
+  namespace: CacheNamespace;
+  id: string;
+  version: number;
+  storedAt: number;
+  accessedAt: number;
+  size: number; // approximate, from the JSON length
+  bounds?: MapBounds;
+}
+
+interface CacheRecord {
+  key: string;
+  data: unknown;
+}
+
+export interface CachedValue<T> {
+  data: T;
+  storedAt: Date;
+  expired: boolean;
+}
+
+export interface CacheNamespaceStatus {
+  namespace: CacheNamespace;
+  policy: CachePolicy;
+  entries: number;
+  expired: number;
+  bytes: number;
+  oldest: Date | null;
+  newest: Date | null;
+}
+
+export interface OfflineCacheStatus {
+  persistent: boolean; // false when falling back to memory
+  namespaces: CacheNamespaceStatus[];
+  usage: number | null; // whole-origin storage, when the browser reports it
+  quota: number | null;
+}
+
+export interface OfflineCache {
+  get: <T>(namespace: CacheNamespace, id: string) => Promise<CachedValue<T> | null>;
+  set: <T>(namespace: CacheNamespace, id: string, data: T, bounds?: MapBounds) => Promise<void>;
+  // Every entry whose bounds overlap, expired or not (offline fallback)
+  findOverlapping: <T>(namespace: CacheNamespace, bounds: MapBounds) => Promise<CachedValue<T>[]>;
+  status: () => Promise<OfflineCacheStatus>;
+  clear: (namespace?: CacheNamespace) => Promise<void>;
+}
+
+const NAMESPACES = Object.keys(CACHE_POLICIES) as CacheNamespace[];
+
+const toKey = (namespace: CacheNamespace, id: string): string => `${namespace}:${id}`;
+
+const isExpired = (meta: CacheMeta, now: number = Date.now()): boolean =>
+  now - meta.storedAt > CACHE_POLICIES[meta.namespace].ttlMs;
+
+const toCachedValue = <T>(meta: CacheMeta, data: unknown): CachedValue<T> => ({
+  data: data as T,
+  storedAt: new Date(meta.storedAt),
+  expired: isExpired(meta)
+});
+
+// Entries to delete so the namespace fits its quota: old versions first,
+// then the least recently used
+const selectEvictions = (entries: CacheMeta[], maxBytes: number): CacheMeta[] => {
+  const stale = entries.filter(meta => meta.version !== CACHE_DATA_VERSION);
+  const current = entries
+    .filter(meta => meta.version === CACHE_DATA_VERSION)
+    .sort((a, b) => a.accessedAt - b.accessedAt);
+
+  let bytes = current.reduce((sum, meta) => sum + meta.size, 0);
+  const evicted = [...stale];
+  for (const meta of current) {
+    if (bytes <= maxBytes) break;
+    evicted.push(meta);
+    bytes -= meta.size;
+  }
+
+  return evicted;
+};
+
+const summarise = (entries: CacheMeta[]): CacheNamespaceStatus[] => {
+  const now = Date.now();
+
+  return NAMESPACES.map(namespace => {
+    const own = entries.filter(meta => meta.namespace === namespace && meta.version === CACHE_DATA_VERSION);
+    const stored = own.map(meta => meta.storedAt);
+
+    return {
+      namespace,
+      policy: CACHE_POLICIES[namespace],
+      entries: own.length,
+      expired: own.filter(meta => isExpired(meta, now)).length,
+      bytes: own.reduce((sum, meta) => sum + meta.size, 0),
+      oldest: stored.length > 0 ? new Date(Math.min(...stored)) : null,
+      newest: stored.length > 0 ? new Date(Math.max(...stored)) : null
+    };
+  });
+};
+
+const estimateStorage = async (): Promise<{ usage: number | null; quota: number | null }> => {
+  try {
+    const estimate = await navigator.storage?.estimate?.();
+    return { usage: estimate?.usage ?? null, quota: estimate?.quota ?? null };
+  } catch {
+    return { usage: null, quota: null };
+  }
+};
+
+const createMeta = (namespace: CacheNamespace, id: string, data: unknown, bounds?: MapBounds): CacheMeta => {
+  const now = Date.now();
+  return {
+    key: toKey(namespace, id),
+    namespace,
+    id,
+    version: CACHE_DATA_VERSION,
+    storedAt: now,
+    accessedAt: now,
+    size: JSON.stringify(data).length,
+    bounds
+  };
+};
+
+export const createIndexedDbOfflineCache = (dbName: string = DB_NAME): OfflineCache => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const getDb = () => {
+    if (!dbPromise) {
+      dbPromise = openDatabase(dbName, DB_VERSION, (db, oldVersion) => {
+        if (oldVersion < 1) {
+          const meta = db.createObjectStore(META_STORE, { keyPath: 'key' });
+          meta.createIndex('namespace', 'namespace');
+          db.createObjectStore(DATA_STORE, { keyPath: 'key' });
+        }
+      });
+    }
+    return dbPromise;
+  };
+
+  const getMeta = async (namespace?: CacheNamespace): Promise<CacheMeta[]> => {
+    const db = await getDb();
+    const store = db.transaction(META_STORE).objectStore(META_STORE);
+    return requestToPromise(namespace ? store.index('namespace').getAll(namespace) : store.getAll());
+  };
+
+  const removeEntries = async (entries: CacheMeta[]) => {
+    if (entries.length === 0) return;
+
+    const db = await getDb();
+    const transaction = db.transaction([META_STORE, DATA_STORE], 'readwrite');
+    entries.forEach(meta => {
+      transaction.objectStore(META_STORE).delete(meta.key);
+      transaction.objectStore(DATA_STORE).delete(meta.key);
+    });
+    await transactionDone(transaction);
+  };
+
+  const prune = async (namespace: CacheNamespace) => {
+    const evicted = selectEvictions(await getMeta(namespace), CACHE_POLICIES[namespace].maxBytes);
+    if (evicted.length > 0) await removeEntries(evicted);
+  };
+
+  const readEntry = async (meta: CacheMeta): Promise<CacheRecord | undefined> => {
+    const db = await getDb();
+    const transaction = db.transaction([META_STORE, DATA_STORE], 'readwrite');
+    const record: CacheRecord | undefined = await requestToPromise(
+      transaction.objectStore(DATA_STORE).get(meta.key)
+    );
+    if (record) transaction.objectStore(META_STORE).put({ ...meta, accessedAt: Date.now() });
+    await transactionDone(transaction);
+    return record;
+  };
+
+  return {
+    get: async <T>(namespace: CacheNamespace, id: string) => {
+      const db = await getDb();
+      const meta: CacheMeta | undefined = await requestToPromise(
+        db.transaction(META_STORE).objectStore(META_STORE).get(toKey(namespace, id))
+      );
+      if (!meta || meta.version !== CACHE_DATA_VERSION) return null;
+
+      const record = await readEntry(meta);
+      return record ? toCachedValue<T>(meta, record.data) : null;
+    },
+
+    set: async (namespace, id, data, bounds) => {
+      const meta = createMeta(namespace, id, data, bounds);
+      const db = await getDb();
+      const transaction = db.transaction([META_STORE, DATA_STORE], 'readwrite');
+      transaction.objectStore(META_STORE).put(meta);
+      transaction.objectStore(DATA_STORE).put({ key: meta.key, data });
+      await transactionDone(transaction);
+      await prune(namespace);
+    },
+
+    findOverlapping: async <T>(namespace: CacheNamespace, bounds: MapBounds) => {
+      const matches = (await getMeta(namespace)).filter(meta =>
+        meta.version === CACHE_DATA_VERSION && meta.bounds && boundsOverlap(bounds, meta.bounds)
+      );
+
+      const values: CachedValue<T>[] = [];
+      for (const meta of matches) {
+        const record = await readEntry(meta);
+        if (record) values.push(toCachedValue<T>(meta, record.data));
+      }
+      return values;
+    },
+
+    status: async () => ({
+      persistent: true,
+      namespaces: summarise(await getMeta()),
+      ...await estimateStorage()
+    }),
+
+    clear: async (namespace) => {
+      if (namespace) {
+        await removeEntries(await getMeta(namespace));
+        return;
+      }
+
+      const db = await getDb();
+      const transaction = db.transaction([META_STORE, DATA_STORE], 'readwrite');
+      transaction.objectStore(META_STORE).clear();
+      transaction.objectStore(DATA_STORE).clear();
+      await transactionDone(transaction);
+    }
+  };
+};
+
+// Non-persistent fallback, e.g. private browsing without IndexedDB
+export const createMemoryOfflineCache = (): OfflineCache => {
+  const entries = new Map<string, { meta: CacheMeta; data: unknown }>();
+
+  const prune = (namespace: CacheNamespace) => {
+    const own = [...entries.values()].map(entry => entry.meta).filter(meta => meta.namespace === namespace);
+    selectEvictions(own, CACHE_POLICIES[namespace].maxBytes).forEach(meta => entries.delete(meta.key));
+  };
+
+  const read = <T>(key: string): CachedValue<T> | null => {
+    const entry = entries.get(key);
+    if (!entry) return null;
+
+    entry.meta.accessedAt = Date.now();
+    return toCachedValue<T>(entry.meta, entry.data);
+  };
+
+  return {
+    get: async <T>(namespace: CacheNamespace, id: string) => read<T>(toKey(namespace, id)),
+
+    set: async (namespace, id, data, bounds) => {
+      const meta = createMeta(namespace, id, data, bounds);
+      entries.set(meta.key, { meta, data });
+      prune(namespace);
+    },
+
+    findOverlapping: async <T>(namespace: CacheNamespace, bounds: MapBounds) =>
+      [...entries.values()]
+        .filter(({ meta }) => meta.namespace === namespace && meta.bounds && boundsOverlap(bounds, meta.bounds))
+        .map(({ meta }) => read<T>(meta.key)!),
+
+    status: async () => ({
+      persistent: false,
+      namespaces: summarise([...entries.values()].map(entry => entry.meta)),
+      usage: null,
+      quota: null
+    }),
+
+    clear: async (namespace) => {
+      for (const [key, entry] of entries) {
+        if (!namespace || entry.meta.namespace === namespace) entries.delete(key);
+      }
+    }
+  };
+};
+
+export const offlineCache: OfflineCache = isIndexedDbAvailable()
+  ? createIndexedDbOfflineCache()
+  : createMemoryOfflineCache();
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { GeometryIssue } from '@/utils/geometryValidation';
+import { OverpassElement, OverpassMember, assemblePolygons, elementToGeometry, stitchRings } from '@/utils/osm';
+
+// Square ring with its lower left corner at (x, y), counter-clockwise
+const square = (x: number, y: number, size: number): number[][] => [
+  [x, y], [x + size, y], [x + size, y + size], [x, y + size], [x, y]
+];
+
+const way = (role: string, coords: number[][]): OverpassMember => ({
+  type: 'way',
+  ref: 1,
+  role,
+  geometry: coords.map(([lon, lat]) => ({ lon, lat }))
+});
+
+const relation = (type: string, members: OverpassMember[]): OverpassElement => ({
+  type: 'relation',
+  id: 1,
+  tags: { type, building: 'yes' },
+  members
+});
+
+describe('stitchRings', () => {
+  it('keeps closed rings as they are', () => {
+    expect(stitchRings([square(0, 0, 10)])).toEqual([square(0, 0, 10)]);
+  });
+
+  it('joins split ways into one ring, reversing ways drawn the other way', () => {
+    const issues: GeometryIssue[] = [];
+    const rings = stitchRings([
+      [[0, 0], [10, 0], [10, 10]],
+      // Drawn from the start point back towards the end of the first way
+      [[0, 0], [0, 10]],
+      [[10, 10], [0, 10]]
+    ], issues);
+
+    expect(rings).toEqual([[[0, 0], [10, 0], [10, 10], [0, 10], [0, 0]]]);
+    expect(issues).toEqual([]);
+  });
+
+  it('stitches separate rings from mixed segments', () => {
+    const rings = stitchRings([
+      [[0, 0], [10, 0], [10, 10]],
+      [[20, 20], [30, 20], [30, 30], [20, 30], [20, 20]],
+      [[10, 10], [0, 10], [0, 0]]
+    ]);
+
+    expect(rings).toHaveLength(2);
+    expect(rings[0]).toEqual(square(0, 0, 10));
+    expect(rings[1]).toEqual(square(20, 20, 10));
+  });
+
+  it('drops rings that cannot be closed', () => {
+    const issues: GeometryIssue[] = [];
+    const rings = stitchRings([
+      square(0, 0, 10),
+      // A member missing from the response leaves a gap
+      [[20, 20], [30, 20], [30, 30]],
+      // Single-node ways cannot form anything
+      [[40, 40]]
+    ], issues);
+
+    expect(rings).toEqual([square(0, 0, 10)]);
+    expect(issues.map(issue => issue.code)).toEqual(['unclosed-ring']);
+  });
+});
+
+describe('assemblePolygons', () => {
+  it('puts each hole into the smallest outer ring containing it', () => {
+    const large = square(0, 0, 100);
+    const small = square(10, 10, 20);
+    const holeInSmall = square(15, 15, 5);
+    const holeInLarge = square(60, 60, 10);
+
+    const polygons = assemblePolygons([large, small], [holeInSmall, holeInLarge]);
+
+    expect(polygons).toEqual([
+      [large, holeInLarge],
+      [small, holeInSmall]
+    ]);
+  });
+
+  it('drops holes outside every outer ring', () => {
+    const issues: GeometryIssue[] = [];
+    const polygons = assemblePolygons([square(0, 0, 10)], [square(50, 50, 5)], issues);
+
+    expect(polygons).toEqual([[square(0, 0, 10)]]);
+    expect(issues.map(issue => issue.code)).toEqual(['orphan-inner-ring']);
+  });
+});
+
+describe('elementToGeometry', () => {
+  it('builds a polygon with courtyards from a multipolygon relation', () => {
+    const geometry = elementToGeometry(relation('multipolygon', [
+      way('outer', [[0, 0], [10, 0], [10, 10]]),
+      way('', [[10, 10], [0, 10], [0, 0]]),
+      way('inner', square(2, 2, 2))
+    ]));
+
+    expect(geometry).toEqual({ type: 'Polygon', coordinates: [square(0, 0, 10), square(2, 2, 2)] });
+  });
+
+  it('ignores members with other roles', () => {
+    const geometry = elementToGeometry(relation('multipolygon', [
+      way('outer', square(0, 0, 10)),
+      way('outline', square(0, 0, 10)),
+      way('part', square(20, 0, 10))
+    ]));
+
+    expect(geometry).toEqual({ type: 'Polygon', coordinates: [square(0, 0, 10)] });
+  });
+
+  it('only takes areas from multipolygon relations', () => {
+    const building = relation('building', [
+      way('outline', square(0, 0, 10)),
+      way('part', square(0, 0, 5))
+    ]);
+
+    expect(elementToGeometry(building)).toBeNull();
+  });
+});
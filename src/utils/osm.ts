@@ -0,0 +1,344 @@
+// Conversion of Overpass API responses (`out geom`) into typed map features
+
+import { AreaGeometry, FeatureClass, MapFeature, OsmTags } from '@/types/vienna';
+import { pointInRing, ringArea, getPolygons } from '@/utils/geometry';
+import { FeatureDiagnostics, GeometryIssue, repairGeometry } from '@/utils/geometryValidation';
+import { POI_KEYS, classifyTags } from '@/utils/overpassQuery';
+import { getOsmHeights } from '@/utils/buildingHeight';
+import { parseCompassDirection } from '@/utils/solarPotential';
+import { normaliseBuildingTags } from '@/utils/osmTags';
+
+export interface OverpassNode {
+  lat: number;
+  lon: number;
+}
+
+export interface OverpassMember {
+  type: 'node' | 'way' | 'relation';
+  ref: number;
+  role: string;
+  geometry?: OverpassNode[];
+}
+
+export interface OverpassElement {
+  type: 'node' | 'way' | 'relation';
+  id: number;
+  tags?: Record<string, string>;
+  geometry?: OverpassNode[];
+  members?: OverpassMember[];
+}
+
+export interface OverpassResponse {
+  elements?: OverpassElement[];
+}
+
+export interface OsmConversionResult {
+  features: MapFeature[];
+  diagnostics: FeatureDiagnostics[]; // features that were repaired or dropped
+}
+
+// First POI key an element has and its value, e.g. ['amenity', 'school']
+export const getPoiTag = (tags: Record<string, string>): [string, string] | null => {
+  const key = POI_KEYS.find(candidate => tags[candidate]);
+  return key ? [key, tags[key]] : null;
+};
+
+// Name for features without an address or name, e.g. "apartments building"
+export const getFeatureLabel = (tags: Record<string, string>, featureClass: FeatureClass): string => {
+  switch (featureClass) {
+    case 'building':
+      return tags.building && tags.building !== 'yes' ? `${tags.building} building` : 'building';
+    case 'buildingPart':
+      return 'building part';
+    case 'landuse':
+      return `${tags.landuse} area`;
+    case 'poi':
+      return getPoiTag(tags)?.[1] || 'point of interest';
+  }
+};
+
+// Tag value unless it is just "yes"
+const typeOf = (value?: string): string | undefined =>
+  value && value !== 'yes' ? value : undefined;
+
+const levelsOf = (tags: Record<string, string>): number | undefined =>
+  tags['building:levels'] || tags.levels
+    ? parseInt(tags['building:levels'] || tags.levels)
+    : undefined;
+
+// Typed feature of the given class with its own property schema, keeping
+// the full tag set alongside
+export const createOsmFeature = (
+  id: string,
+  featureClass: FeatureClass,
+  tags: OsmTags,
+  label: string,
+  geometry: AreaGeometry
+): MapFeature => {
+  const NAME = tags.name || undefined;
+  const TAGS = { ...tags };
+
+  switch (featureClass) {
+    case 'building': {
+      const heights = getOsmHeights(tags);
+      const { height, minHeight, source } = heights;
+      return {
+        type: 'Feature',
+        id,
+        properties: {
+          OSM_ID: id,
+          FEATURE_CLASS: 'building',
+          ADRESSE: label,
+          STRASSE: tags['addr:street'] || undefined,
+          HAUSNUMMER: tags['addr:housenumber'] || undefined,
+          PLZ: tags['addr:postcode'] || undefined,
+          GEBAEUDETYP: typeOf(tags.building),
+          STOCKWERKE: levelsOf(tags),
+          HOEHE: height,
+          MIN_HOEHE: minHeight > 0 ? minHeight : undefined,
+          HOEHE_QUELLE: source,
+          DACHFORM: tags['roof:shape'] || undefined,
+          DACHAUSRICHTUNG: tags['roof:orientation'] === 'along' || tags['roof:orientation'] === 'across'
+            ? tags['roof:orientation']
+            : undefined,
+          DACHRICHTUNG: parseCompassDirection(tags['roof:direction']),
+          DACHNEIGUNG: tags['roof:angle'] && !isNaN(parseFloat(tags['roof:angle']))
+            ? parseFloat(tags['roof:angle'])
+            : undefined,
+          ...normaliseBuildingTags(tags, heights),
+          NAME,
+          TAGS
+        },
+        geometry
+      };
+    }
+    case 'buildingPart': {
+      const { height, minHeight, source, tag } = getOsmHeights(tags);
+      return {
+        type: 'Feature',
+        id,
+        properties: {
+          OSM_ID: id,
+          FEATURE_CLASS: 'buildingPart',
+          TEILTYP: typeOf(tags['building:part']),
+          STOCKWERKE: levelsOf(tags),
+          HOEHE: height,
+          MIN_HOEHE: minHeight,
+          HOEHE_QUELLE: source,
+          NAME,
+          QUELLEN: { HOEHE: tag },
+          TAGS
+        },
+        geometry
+      };
+    }
+    case 'landuse':
+      return {
+        type: 'Feature',
+        id,
+        properties: { OSM_ID: id, FEATURE_CLASS: 'landuse', NUTZUNG: tags.landuse, NAME, TAGS },
+        geometry
+      };
+    case 'poi': {
+      const [KATEGORIE, ART] = getPoiTag(tags) || ['poi', 'yes'];
+      return {
+        type: 'Feature',
+        id,
+        properties: {
+          OSM_ID: id,
+          FEATURE_CLASS: 'poi',
+          KATEGORIE,
+          ART,
+          ADRESSE: tags['addr:street'] && tags['addr:housenumber']
+            ? `${tags['addr:street']} ${tags['addr:housenumber']}`
+            : undefined,
+          NAME,
+          OEFFNUNGSZEITEN: tags.opening_hours || undefined,
+          WEBSITE: tags.website || tags['contact:website'] || undefined,
+          TAGS
+        },
+        geometry
+      };
+    }
+  }
+};
+
+const toCoordinates = (nodes: OverpassNode[]): number[][] =>
+  nodes
+    .filter(node => node && typeof node.lon === 'number' && typeof node.lat === 'number')
+    .map(node => [node.lon, node.lat]);
+
+const samePoint = (a: number[], b: number[]): boolean => a[0] === b[0] && a[1] === b[1];
+
+const isClosed = (ring: number[][]): boolean =>
+  ring.length > 1 && samePoint(ring[0], ring[ring.length - 1]);
+
+// Join way segments that share end nodes into closed rings. Segments that
+// cannot be closed (e.g. members missing from the response) are dropped.
+export const stitchRings = (segments: number[][][], issues: GeometryIssue[] = []): number[][][] => {
+  const remaining = segments.filter(segment => segment.length > 1).map(segment => [...segment]);
+  const rings: number[][][] = [];
+
+  while (remaining.length > 0) {
+    let ring = remaining.shift()!;
+
+    while (!isClosed(ring)) {
+      const end = ring[ring.length - 1];
+      const index = remaining.findIndex(segment =>
+        samePoint(segment[0], end) || samePoint(segment[segment.length - 1], end)
+      );
+      if (index === -1) break;
+
+      const [next] = remaining.splice(index, 1);
+      const oriented = samePoint(next[0], end) ? next : [...next].reverse();
+      ring = [...ring, ...oriented.slice(1)];
+    }
+
+    if (isClosed(ring) && ring.length >= 4) {
+      rings.push(ring);
+    } else {
+      issues.push({
+        code: 'unclosed-ring',
+        severity: 'warning',
+        message: `Relation ring with ${ring.length} nodes could not be closed, dropped`
+      });
+    }
+  }
+
+  return rings;
+};
+
+// Assemble outer and inner rings into polygons, putting each inner ring
+// (courtyard) into the smallest outer ring that contains it
+export const assemblePolygons = (
+  outerRings: number[][][],
+  innerRings: number[][][],
+  issues: GeometryIssue[] = []
+): number[][][][] => {
+  const outers = outerRings
+    .map(ring => ({ ring, area: ringArea(ring), holes: [] as number[][][] }))
+    .sort((a, b) => a.area - b.area);
+
+  for (const inner of innerRings) {
+    const container = outers.find(outer => pointInRing(inner[0], outer.ring));
+    if (container) {
+      container.holes.push(inner);
+    } else {
+      issues.push({
+        code: 'orphan-inner-ring',
+        severity: 'warning',
+        message: 'Relation inner ring outside every outer ring, dropped'
+      });
+    }
+  }
+
+  return outers
+    .sort((a, b) => b.area - a.area)
+    .map(({ ring, holes }) => [ring, ...holes]);
+};
+
+// Raw geometry of a way or multipolygon relation, or null if it cannot form
+// an area. Rings are closed, validated and oriented by repairGeometry.
+export const elementToGeometry = (element: OverpassElement, issues: GeometryIssue[] = []): AreaGeometry | null => {
+  if (element.type === 'way' && Array.isArray(element.geometry)) {
+    const coords = toCoordinates(element.geometry);
+    return coords.length > 0 ? { type: 'Polygon', coordinates: [coords] } : null;
+  }
+
+  // Other relations (type=building with outline and part members, routes,
+  // sites) do not describe an area by themselves
+  if (element.type === 'relation' && element.members && element.tags?.type === 'multipolygon') {
+    const ways = element.members.filter(member => member.type === 'way' && Array.isArray(member.geometry));
+    const ringsOf = (roles: string[]) => ways
+      .filter(member => roles.includes(member.role))
+      .map(member => toCoordinates(member.geometry!));
+    // Members without a role are treated as outer, as in the OSM multipolygon rules
+    const outer = ringsOf(['outer', '']);
+    const inner = ringsOf(['inner']);
+
+    const polygons = assemblePolygons(stitchRings(outer, issues), stitchRings(inner, issues), issues);
+    if (polygons.length === 0) return null;
+
+    return polygons.length === 1
+      ? { type: 'Polygon', coordinates: polygons[0] }
+      : { type: 'MultiPolygon', coordinates: polygons };
+  }
+
+  return null;
+};
+
+// Rough longitude/latitude bounds for Vienna
+const isInViennaRange = (coord: number[]): boolean =>
+  coord.length === 2 &&
+  coord[0] >= 16.0 && coord[0] <= 17.0 &&
+  coord[1] >= 48.0 && coord[1] <= 48.5;
+
+const geometryInViennaRange = (geometry: AreaGeometry): boolean =>
+  getPolygons(geometry).every(polygon => polygon.every(ring => ring.every(isInViennaRange)));
+
+// Elements converted between progress reports
+const PROGRESS_INTERVAL = 500;
+
+// Convert OSM data to GeoJSON format, repairing invalid footprints and
+// collecting per-feature diagnostics
+export const convertOSMToGeoJSON = (
+  data: OverpassResponse,
+  onProgress?: (processed: number, total: number) => void
+): OsmConversionResult => {
+  const features: MapFeature[] = [];
+  const diagnostics: FeatureDiagnostics[] = [];
+  const total = data.elements?.length || 0;
+
+  data.elements?.forEach((element, index) => {
+    if (onProgress && index % PROGRESS_INTERVAL === 0) onProgress(index, total);
+
+    // Skip elements without geometry or tags
+    if (!(element.geometry || element.members) || !element.tags) return;
+
+    // Only elements one of the feature-class presets asks for
+    const tags = element.tags;
+    const featureClass = classifyTags(tags);
+    if (!featureClass) return;
+
+    const label = tags['addr:street'] && tags['addr:housenumber']
+      ? `${tags['addr:street']} ${tags['addr:housenumber']}`
+      : tags.name || getFeatureLabel(tags, featureClass);
+    const issues: GeometryIssue[] = [];
+    // Only features whose shape changed or that were dropped are reported
+    const report = (dropped: boolean) => {
+      if (dropped || issues.some(issue => issue.severity === 'warning')) {
+        diagnostics.push({ featureId: `${element.type}/${element.id}`, label, issues, dropped });
+      }
+    };
+
+    try {
+      const raw = elementToGeometry(element, issues);
+      if (!raw) {
+        report(true);
+        return;
+      }
+
+      if (!geometryInViennaRange(raw)) {
+        issues.push({ code: 'out-of-range', severity: 'warning', message: 'Coordinates outside the Vienna area' });
+        report(true);
+        return;
+      }
+
+      const { geometry, issues: repairIssues } = repairGeometry(raw);
+      issues.push(...repairIssues);
+      if (!geometry) {
+        report(true);
+        return;
+      }
+
+      features.push(createOsmFeature(`${element.type}/${element.id}`, featureClass, tags, label, geometry));
+      report(false);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      issues.push({ code: 'conversion-error', severity: 'warning', message });
+      report(true);
+    }
+  });
+
+  return { features, diagnostics };
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { getOsmHeights } from '@/utils/buildingHeight';
+import { normaliseBuildingTags, parseOsmDate } from '@/utils/osmTags';
+
+describe('parseOsmDate', () => {
+  it.each([
+    ['1895', { year: 1895, from: 1895, to: 1895, approximate: false }],
+    ['1895-04-01', { year: 1895, from: 1895, to: 1895, approximate: false }],
+    ['~1890', { year: 1890, from: 1890, to: 1890, approximate: true }],
+    ['ca. 1890', { year: 1890, from: 1890, to: 1890, approximate: true }],
+    ['1890s', { year: 1895, from: 1890, to: 1899, approximate: true }],
+    ['C19', { year: 1850, from: 1800, to: 1899, approximate: true }],
+    ['early 1900s', { year: 1901, from: 1900, to: 1902, approximate: true }],
+    ['late C19', { year: 1883, from: 1867, to: 1899, approximate: true }],
+    ['before 1900', { year: 1899, from: 1899, to: 1899, approximate: true }],
+    ['after 1945', { year: 1946, from: 1946, to: 1946, approximate: true }],
+    ['1905..1910', { year: 1908, from: 1905, to: 1910, approximate: true }],
+    ['..1910', { year: 1909, from: 1909, to: 1909, approximate: true }],
+    ['1905..', { year: 1906, from: 1906, to: 1906, approximate: true }],
+    ['1890;1925', { year: 1890, from: 1890, to: 1890, approximate: false }]
+  ])('parses "%s"', (value, expected) => {
+    expect(parseOsmDate(value)).toEqual(expected);
+  });
+
+  it.each([undefined, '', 'unknown', '18th century', '..'])('rejects %j', value => {
+    expect(parseOsmDate(value)).toBeUndefined();
+  });
+});
+
+describe('normaliseBuildingTags', () => {
+  it('takes the year from the first date tag that parses and records it', () => {
+    const tags = { start_date: 'unknown', construction_date: '~1890', building: 'yes' };
+    const attributes = normaliseBuildingTags(tags, getOsmHeights(tags));
+
+    expect(attributes.BAUJAHR).toBe(1890);
+    expect(attributes.BAUJAHR_CIRCA).toBe(true);
+    expect(attributes.QUELLEN.BAUJAHR).toBe('construction_date');
+  });
+
+  it('leaves the year unset without a date', () => {
+    const tags = { building: 'yes' };
+    const attributes = normaliseBuildingTags(tags, getOsmHeights(tags));
+
+    expect(attributes.BAUJAHR).toBeUndefined();
+    expect(attributes.BAUJAHR_CIRCA).toBeUndefined();
+    expect(attributes.QUELLEN.BAUJAHR).toBeUndefined();
+  });
+});
@@ -0,0 +1,122 @@
+// Normalised building attributes from raw OSM tags
+//
+// Each attribute is read from the first of a few tags that may carry it, and
+// the tag actually used is recorded so the value can be traced back to OSM.
+
+import { AttributeSources, OsmTags, ViennaBuilding } from '@/types/vienna';
+import { OsmHeights } from '@/utils/buildingHeight';
+
+type NormalisedAttributes = Pick<ViennaBuilding['properties'], 'BAUJAHR' | 'BAUJAHR_CIRCA' | 'MATERIAL' | 'DENKMALSCHUTZ'> & {
+  QUELLEN: AttributeSources;
+};
+
+// Tags carrying each attribute, most specific first
+const YEAR_TAGS = ['start_date', 'construction_date', 'building:start_date'];
+const MATERIAL_TAGS = ['building:material', 'building:facade:material'];
+// heritage=* is the protection level, ref:at:bda the Bundesdenkmalamt listing
+const HERITAGE_TAGS = ['heritage', 'ref:at:bda'];
+
+export interface YearRange {
+  year: number; // single year standing for the range, its middle
+  from: number;
+  to: number;
+  approximate: boolean;
+}
+
+const yearRange = (from: number, to: number, approximate: boolean): YearRange =>
+  ({ year: Math.round((from + to) / 2), from, to, approximate });
+
+// One date of the OSM date syntax: "1895", "1895-04-01", "1890s", "C19",
+// optionally with "~", "early", "mid", "late", "before" or "after"
+const parseDatePart = (text: string): YearRange | undefined => {
+  const value = text.trim().toLowerCase();
+
+  const circa = value.match(/^(?:~|ca\.?|circa|approx\.?)\s*(.+)$/);
+  if (circa) {
+    const range = parseDatePart(circa[1]);
+    return range && yearRange(range.from, range.to, true);
+  }
+
+  const bound = value.match(/^(before|after)\s+(.+)$/);
+  if (bound) {
+    const range = parseDatePart(bound[2]);
+    if (!range) return undefined;
+    const year = bound[1] === 'before' ? range.from - 1 : range.to + 1;
+    return yearRange(year, year, true);
+  }
+
+  // First, middle or last third of a decade or century
+  const part = value.match(/^(early|mid|late)\s+(.+)$/);
+  if (part) {
+    const range = parseDatePart(part[2]);
+    if (!range) return undefined;
+    const third = (range.to - range.from + 1) / 3;
+    const index = ['early', 'mid', 'late'].indexOf(part[1]);
+    return yearRange(Math.round(range.from + index * third), Math.round(range.from + (index + 1) * third) - 1, true);
+  }
+
+  const century = value.match(/^c(\d{1,2})$/);
+  if (century) {
+    const from = (parseInt(century[1]) - 1) * 100;
+    return yearRange(from, from + 99, true);
+  }
+
+  const decade = value.match(/^(\d{3})0s$/);
+  if (decade) {
+    const from = parseInt(decade[1]) * 10;
+    return yearRange(from, from + 9, true);
+  }
+
+  const date = value.match(/^(\d{4})(?:-\d{2}){0,2}$/);
+  return date ? yearRange(parseInt(date[1]), parseInt(date[1]), false) : undefined;
+};
+
+// Construction year from an OSM date, including fuzzy forms ("~1890",
+// "C19", "1905..1910"). Of several values ("1890;1925") the first is used.
+export const parseOsmDate = (value?: string): YearRange | undefined => {
+  const first = value?.split(';')[0].trim();
+  if (!first) return undefined;
+
+  const [start, end] = first.split('..');
+  if (end === undefined) return parseDatePart(start);
+
+  // Open ranges ("..1910", "1905..") only bound the date on one side
+  const from = start.trim() ? parseDatePart(start) : undefined;
+  const to = end.trim() ? parseDatePart(end) : undefined;
+  if (from && to) return yearRange(from.from, to.to, true);
+  if (to) return parseDatePart(`before ${end}`);
+  if (from) return parseDatePart(`after ${start}`);
+  return undefined;
+};
+
+// First of the keys with a value that parses, and the key it came from
+const firstTag = <T>(
+  tags: OsmTags,
+  keys: string[],
+  parse: (value: string) => T | undefined
+): [T, string] | null => {
+  for (const key of keys) {
+    const value = tags[key] ? parse(tags[key]) : undefined;
+    if (value !== undefined) return [value, key];
+  }
+  return null;
+};
+
+export const normaliseBuildingTags = (tags: OsmTags, heights: OsmHeights): NormalisedAttributes => {
+  const year = firstTag(tags, YEAR_TAGS, parseOsmDate);
+  const material = firstTag(tags, MATERIAL_TAGS, value => value.replace(/_/g, ' '));
+  const heritage = firstTag(tags, HERITAGE_TAGS, value => value !== 'no' || undefined);
+
+  return {
+    BAUJAHR: year?.[0].year,
+    BAUJAHR_CIRCA: year?.[0].approximate || undefined,
+    MATERIAL: material?.[0],
+    DENKMALSCHUTZ: heritage?.[0],
+    QUELLEN: {
+      HOEHE: heights.tag,
+      BAUJAHR: year?.[1],
+      MATERIAL: material?.[1],
+      DENKMALSCHUTZ: heritage?.[1]
+    }
+  };
+};
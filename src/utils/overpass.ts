@@ -0,0 +1,235 @@
+// Overpass API client with mirror failover and rate-limit aware retries
+//
+// Each mirror's health is tracked across requests: a mirror that answered
+// 429/504 or failed to respond is cooled down with exponential backoff and
+// requests fail over to the next healthy one. When every mirror is cooling
+// down the client waits, reporting the delay through `onRetry`.
+//
+//   VITE_OVERPASS_ENDPOINTS  comma-separated interpreter URLs, in order of preference
+
+import type { OverpassResponse } from '@/utils/osm';
+import type { FetchLike } from '@/utils/viennaOgd';
+
+export const DEFAULT_OVERPASS_ENDPOINTS = [
+  'https://overpass-api.de/api/interpreter',
+  'https://overpass.kumi.systems/api/interpreter',
+  'https://overpass.private.coffee/api/interpreter'
+];
+
+// Statuses worth retrying: rate limited, gateway timeout/overload
+const RETRYABLE_STATUSES = [429, 502, 503, 504];
+
+export interface OverpassEndpointHealth {
+  url: string;
+  failures: number; // consecutive failures
+  lastError: string | null;
+  lastSuccess: Date | null;
+  cooldownUntil: number; // timestamp before which the mirror is skipped
+}
+
+export interface OverpassRetry {
+  endpoint: string;
+  attempt: number;
+  delayMs: number;
+  reason: string;
+}
+
+export interface OverpassQueryOptions {
+  signal?: AbortSignal;
+  onRetry?: (retry: OverpassRetry) => void;
+  onProgress?: (bytesLoaded: number) => void; // while the response downloads
+}
+
+export interface OverpassClient {
+  query: (query: string, options?: OverpassQueryOptions) => Promise<OverpassResponse>;
+  getHealth: () => OverpassEndpointHealth[];
+}
+
+export interface OverpassClientOptions {
+  endpoints?: string[];
+  fetch?: FetchLike;
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+class RetryableError extends Error {
+  constructor(message: string, public delayMs: number | null = null) {
+    super(message);
+  }
+}
+
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Request aborted', 'AbortError'));
+      return;
+    }
+
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Request aborted', 'AbortError'));
+    }, { once: true });
+  });
+
+// Seconds until the next query slot, from the `/api/status` text
+// ("2 slots available now." or "Slot available after: …, in 12 seconds.")
+export const parseOverpassStatus = (text: string): number | null => {
+  if (/\b[1-9]\d* slots? available now/.test(text)) return 0;
+
+  const waits = [...text.matchAll(/in (-?\d+) seconds/g)].map(match => Math.max(0, parseInt(match[1])));
+  return waits.length > 0 ? Math.min(...waits) : null;
+};
+
+const parseRetryAfter = (header: string | null): number | null => {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return seconds * 1000;
+
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+// Read a JSON body chunk by chunk, reporting the bytes received so far
+const readJson = async (response: Response, onProgress?: (bytesLoaded: number) => void): Promise<OverpassResponse> => {
+  if (!onProgress || !response.body) return response.json();
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  const chunks: string[] = [];
+  let loaded = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    loaded += value.byteLength;
+    chunks.push(decoder.decode(value, { stream: true }));
+    onProgress(loaded);
+  }
+
+  chunks.push(decoder.decode());
+  return JSON.parse(chunks.join(''));
+};
+
+export const parseEndpointList = (value: string | undefined): string[] =>
+  (value || '').split(',').map(url => url.trim()).filter(Boolean);
+
+export const createOverpassClient = (options: OverpassClientOptions = {}): OverpassClient => {
+  const fetchImpl: FetchLike = options.fetch || ((input, init) => fetch(input, init));
+  const endpoints = options.endpoints?.length ? options.endpoints : DEFAULT_OVERPASS_ENDPOINTS;
+  const maxAttempts = options.maxAttempts || 6;
+  const baseDelayMs = options.baseDelayMs || 2000;
+  const maxDelayMs = options.maxDelayMs || 60000;
+
+  const health: OverpassEndpointHealth[] = endpoints.map(url => ({
+    url,
+    failures: 0,
+    lastError: null,
+    lastSuccess: null,
+    cooldownUntil: 0
+  }));
+
+  // Healthy mirrors in order of preference, else the one available soonest
+  const pickEndpoint = (): OverpassEndpointHealth => {
+    const now = Date.now();
+    const available = health.filter(entry => entry.cooldownUntil <= now);
+    if (available.length > 0) {
+      return available.reduce((best, entry) => entry.failures < best.failures ? entry : best);
+    }
+    return health.reduce((best, entry) => entry.cooldownUntil < best.cooldownUntil ? entry : best);
+  };
+
+  const backoff = (failures: number): number => {
+    const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** (failures - 1));
+    return delay / 2 + Math.random() * delay / 2; // jitter
+  };
+
+  const markFailure = (entry: OverpassEndpointHealth, reason: string, delayMs: number | null) => {
+    entry.failures++;
+    entry.lastError = reason;
+    entry.cooldownUntil = Date.now() + (delayMs ?? backoff(entry.failures));
+  };
+
+  const markSuccess = (entry: OverpassEndpointHealth) => {
+    entry.failures = 0;
+    entry.lastError = null;
+    entry.lastSuccess = new Date();
+    entry.cooldownUntil = 0;
+  };
+
+  // Ask a rate-limited mirror when its next slot frees up
+  const getSlotDelay = async (endpoint: string, signal?: AbortSignal): Promise<number | null> => {
+    try {
+      const response = await fetchImpl(endpoint.replace(/\/interpreter$/, '/status'), { signal });
+      if (!response.ok) return null;
+      const seconds = parseOverpassStatus(await response.text());
+      return seconds === null ? null : seconds * 1000 + 500;
+    } catch {
+      return null;
+    }
+  };
+
+  const request = async (
+    endpoint: string,
+    query: string,
+    { signal, onProgress }: OverpassQueryOptions
+  ): Promise<OverpassResponse> => {
+    let response: Response;
+    try {
+      response = await fetchImpl(`${endpoint}?data=${encodeURIComponent(query)}`, { signal });
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      throw new RetryableError(err instanceof Error ? err.message : 'Network error');
+    }
+
+    if (response.ok) return readJson(response, onProgress);
+
+    if (RETRYABLE_STATUSES.includes(response.status)) {
+      const delay = parseRetryAfter(response.headers.get('Retry-After'))
+        ?? (response.status === 429 ? await getSlotDelay(endpoint, signal) : null);
+      throw new RetryableError(`HTTP ${response.status}`, delay);
+    }
+
+    // Anything else (e.g. 400 for a bad query) will not improve with a retry
+    throw new Error(`Overpass API failed: ${response.status}`);
+  };
+
+  return {
+    query: async (query, options = {}) => {
+      const { signal, onRetry } = options;
+      let lastReason = 'no response';
+
+      for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        const entry = pickEndpoint();
+        const delayMs = Math.max(0, entry.cooldownUntil - Date.now());
+
+        if (attempt > 1) {
+          onRetry?.({ endpoint: entry.url, attempt, delayMs, reason: lastReason });
+        }
+        if (delayMs > 0) await wait(delayMs, signal);
+
+        try {
+          const data = await request(entry.url, query, options);
+          markSuccess(entry);
+          return data;
+        } catch (err) {
+          if (!(err instanceof RetryableError)) throw err;
+
+          lastReason = err.message;
+          markFailure(entry, err.message, err.delayMs);
+          console.warn(`Overpass mirror ${entry.url} failed (${err.message}), attempt ${attempt}/${maxAttempts}`);
+        }
+      }
+
+      throw new Error(`Overpass API unavailable after ${maxAttempts} attempts (${lastReason})`);
+    },
+
+    getHealth: () => health.map(entry => ({ ...entry }))
+  };
+};
+
+export const overpassClient = createOverpassClient({
+  endpoints: parseEndpointList(import.meta.env.VITE_OVERPASS_ENDPOINTS)
+});
@@ -0,0 +1,120 @@
+// Loads and converts Overpass queries, in a Web Worker where available so
+// large responses do not block the map
+
+import { OsmConversionResult, convertOSMToGeoJSON } from '@/utils/osm';
+import { OverpassClient, OverpassRetry, overpassClient } from '@/utils/overpass';
+import type {
+  OverpassLoadProgress,
+  OverpassWorkerRequest,
+  OverpassWorkerResponse
+} from '@/workers/overpassProtocol';
+
+export type { OverpassLoadProgress } from '@/workers/overpassProtocol';
+
+export interface OverpassLoadOptions {
+  signal?: AbortSignal;
+  onRetry?: (retry: OverpassRetry) => void;
+  onProgress?: (progress: OverpassLoadProgress) => void;
+}
+
+export interface OverpassLoader {
+  load: (query: string, options?: OverpassLoadOptions) => Promise<OsmConversionResult>;
+}
+
+interface PendingLoad {
+  options: OverpassLoadOptions;
+  resolve: (result: OsmConversionResult) => void;
+  reject: (error: Error) => void;
+}
+
+const abortError = () => new DOMException('Request aborted', 'AbortError');
+
+// Fallback without workers (e.g. tests or old browsers)
+export const createMainThreadOverpassLoader = (client: OverpassClient = overpassClient): OverpassLoader => ({
+  load: async (query, { signal, onRetry, onProgress } = {}) => {
+    const data = await client.query(query, {
+      signal,
+      onRetry,
+      onProgress: loaded => onProgress?.({ stage: 'downloading', loaded, total: null })
+    });
+    return convertOSMToGeoJSON(data, (processed, total) =>
+      onProgress?.({ stage: 'converting', loaded: processed, total })
+    );
+  }
+});
+
+export const createWorkerOverpassLoader = (
+  createWorker: () => Worker = () =>
+    new Worker(new URL('../workers/overpass.worker.ts', import.meta.url), { type: 'module' })
+): OverpassLoader => {
+  let worker: Worker | null = null;
+  let nextId = 1;
+  const pending = new Map<number, PendingLoad>();
+
+  const handleMessage = (message: OverpassWorkerResponse) => {
+    const entry = pending.get(message.id);
+    if (!entry) return; // cancelled
+
+    switch (message.type) {
+      case 'progress':
+        entry.options.onProgress?.(message.progress);
+        break;
+      case 'retry':
+        entry.options.onRetry?.(message.retry);
+        break;
+      case 'result':
+        pending.delete(message.id);
+        entry.resolve(message.result);
+        break;
+      case 'error':
+        pending.delete(message.id);
+        entry.reject(message.aborted ? abortError() : new Error(message.message));
+        break;
+    }
+  };
+
+  // Started on first use; a crashed worker fails its loads and is replaced
+  const getWorker = (): Worker => {
+    if (!worker) {
+      const created = createWorker();
+      created.onmessage = (event: MessageEvent<OverpassWorkerResponse>) => handleMessage(event.data);
+      created.onerror = (event) => {
+        console.error('Overpass worker failed:', event.message);
+        pending.forEach(entry => entry.reject(new Error('Building loader crashed')));
+        pending.clear();
+        created.terminate();
+        if (worker === created) worker = null;
+      };
+      worker = created;
+    }
+    return worker;
+  };
+
+  const send = (target: Worker, message: OverpassWorkerRequest) => target.postMessage(message);
+
+  return {
+    load: (query, options = {}) => new Promise((resolve, reject) => {
+      const { signal } = options;
+      if (signal?.aborted) {
+        reject(abortError());
+        return;
+      }
+
+      const id = nextId++;
+      const target = getWorker();
+      pending.set(id, { options, resolve, reject });
+
+      signal?.addEventListener('abort', () => {
+        if (!pending.delete(id)) return;
+        send(target, { type: 'cancel', id });
+        reject(abortError());
+      }, { once: true });
+
+      send(target, { type: 'load', id, query });
+    })
+  };
+};
+
+export const overpassLoader: OverpassLoader = typeof Worker !== 'undefined'
+  ? createWorkerOverpassLoader()
+  : createMainThreadOverpassLoader();
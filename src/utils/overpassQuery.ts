@@ -0,0 +1,125 @@
+// Typed Overpass QL builder and the feature-class presets loaded by viewport
+//
+// Every preset excludes the keys of the presets before it, so an element is
+// loaded by exactly one class (a shop in a building is a building, a park
+// tagged as landuse is land use) and `classifyTags` agrees with the query.
+
+import { FeatureClass } from '@/types/vienna';
+import { MapBounds, boundsToOverpassBbox } from '@/utils/mapBounds';
+
+export type OverpassElementType = 'node' | 'way' | 'relation';
+
+export interface TagFilter {
+  key: string;
+  value?: string; // any value when omitted
+  exists?: boolean; // false: the element must not have the key
+}
+
+export interface OverpassStatement {
+  elements: OverpassElementType[];
+  filters: TagFilter[];
+}
+
+export interface FeatureClassPreset {
+  id: FeatureClass;
+  label: string;
+  description: string;
+  statements: OverpassStatement[];
+}
+
+export interface OverpassQueryOptions {
+  timeoutSeconds?: number;
+  maxSizeBytes?: number;
+}
+
+const AREAS: OverpassElementType[] = ['way', 'relation'];
+
+const has = (key: string, value?: string): TagFilter => ({ key, value });
+const lacks = (key: string): TagFilter => ({ key, exists: false });
+
+// Keys that make an area a point of interest; railway, aeroway and industrial
+// lines and areas are deliberately not loaded
+export const POI_KEYS = ['amenity', 'shop', 'office', 'tourism', 'leisure', 'historic', 'craft', 'man_made', 'public_transport'];
+
+// In order of precedence
+export const FEATURE_CLASS_PRESETS: FeatureClassPreset[] = [
+  {
+    id: 'building',
+    label: 'Buildings',
+    description: 'Building outlines (building=*)',
+    statements: [{ elements: AREAS, filters: [has('building')] }]
+  },
+  {
+    id: 'buildingPart',
+    label: 'Building parts',
+    description: 'Parts with their own height or roof (building:part=*)',
+    statements: [{ elements: AREAS, filters: [has('building:part'), lacks('building')] }]
+  },
+  {
+    id: 'landuse',
+    label: 'Land use',
+    description: 'Land use areas (landuse=*)',
+    statements: [{ elements: AREAS, filters: [has('landuse'), lacks('building'), lacks('building:part')] }]
+  },
+  {
+    id: 'poi',
+    label: 'Points of interest',
+    description: 'Amenities, shops, parks and landmarks outside buildings',
+    statements: POI_KEYS.map(key => ({
+      elements: AREAS,
+      filters: [has(key), lacks('building'), lacks('building:part'), lacks('landuse')]
+    }))
+  }
+];
+
+export const DEFAULT_FEATURE_CLASSES: FeatureClass[] = ['building'];
+
+export const getFeatureClassPreset = (id: FeatureClass): FeatureClassPreset =>
+  FEATURE_CLASS_PRESETS.find(preset => preset.id === id)!;
+
+const quote = (text: string): string => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+export const renderTagFilter = (filter: TagFilter): string => {
+  if (filter.exists === false) return `[!${quote(filter.key)}]`;
+  if (filter.value !== undefined) return `[${quote(filter.key)}=${quote(filter.value)}]`;
+  return `[${quote(filter.key)}]`;
+};
+
+const matchesFilter = (tags: Record<string, string>, filter: TagFilter): boolean => {
+  if (filter.exists === false) return !(filter.key in tags);
+  if (filter.value !== undefined) return tags[filter.key] === filter.value;
+  return filter.key in tags;
+};
+
+// Class an element belongs to, or null if no preset would load it
+export const classifyTags = (tags: Record<string, string>): FeatureClass | null => {
+  const preset = FEATURE_CLASS_PRESETS.find(candidate =>
+    candidate.statements.some(statement => statement.filters.every(filter => matchesFilter(tags, filter)))
+  );
+  return preset ? preset.id : null;
+};
+
+// Query for the given feature classes in each area, with full geometry
+export const buildOverpassQuery = (
+  classes: FeatureClass[],
+  areas: MapBounds[],
+  { timeoutSeconds = 30, maxSizeBytes = 536870912 }: OverpassQueryOptions = {}
+): string => {
+  const statements = FEATURE_CLASS_PRESETS
+    .filter(preset => classes.includes(preset.id))
+    .flatMap(preset => preset.statements);
+
+  const lines = areas.flatMap(area => {
+    const bbox = boundsToOverpassBbox(area);
+    return statements.flatMap(statement => {
+      const filters = statement.filters.map(renderTagFilter).join('');
+      return statement.elements.map(element => `${element}${filters}(${bbox});`);
+    });
+  });
+
+  return `[out:json][timeout:${timeoutSeconds}][maxsize:${maxSizeBytes}];
+(
+  ${lines.join('\n  ')}
+);
+out geom;`;
+};
@@ -0,0 +1,101 @@
+// Abortable request queue with a concurrency limit
+//
+// Queued requests start in priority order (set by the caller, e.g. nearest to
+// the viewport first) as running ones finish. Every request can be aborted,
+// queued or running; its promise resolves either way.
+
+export interface QueuedRequest<T> {
+  id: number;
+  meta: T;
+  signal: AbortSignal;
+  promise: Promise<void>;
+}
+
+interface QueueEntry<T> {
+  request: QueuedRequest<T>;
+  controller: AbortController;
+  run: (request: QueuedRequest<T>) => Promise<void>;
+  resolve: () => void;
+}
+
+export class RequestQueue<T> {
+  private queued: QueueEntry<T>[] = [];
+  private running = new Set<QueueEntry<T>>();
+  private nextId = 1;
+  private compare: ((a: T, b: T) => number) | null = null;
+
+  constructor(
+    private concurrency: number,
+    private onCountChange?: (count: number) => void
+  ) {}
+
+  // Requests queued or running
+  get size(): number {
+    return this.queued.length + this.running.size;
+  }
+
+  enqueue(meta: T, run: (request: QueuedRequest<T>) => Promise<void>): QueuedRequest<T> {
+    const controller = new AbortController();
+    let resolve: () => void = () => {};
+    const promise = new Promise<void>(done => { resolve = done; });
+    const request = { id: this.nextId++, meta, signal: controller.signal, promise };
+
+    this.queued.push({ request, controller, run, resolve });
+    this.pump();
+    this.notify();
+    return request;
+  }
+
+  // Order in which queued requests start; re-applied whenever a slot frees up
+  setPriority(compare: (a: T, b: T) => number): void {
+    this.compare = compare;
+  }
+
+  // Abort every queued or running request matching the predicate
+  abortWhere(predicate: (meta: T) => boolean): number {
+    let aborted = 0;
+
+    this.queued = this.queued.filter(entry => {
+      if (!predicate(entry.request.meta)) return true;
+      entry.controller.abort();
+      entry.resolve();
+      aborted++;
+      return false;
+    });
+
+    this.running.forEach(entry => {
+      if (!entry.controller.signal.aborted && predicate(entry.request.meta)) {
+        entry.controller.abort();
+        aborted++;
+      }
+    });
+
+    if (aborted > 0) this.notify();
+    return aborted;
+  }
+
+  private pump(): void {
+    if (this.compare) {
+      const compare = this.compare;
+      this.queued.sort((a, b) => compare(a.request.meta, b.request.meta));
+    }
+
+    while (this.running.size < this.concurrency && this.queued.length > 0) {
+      const entry = this.queued.shift()!;
+      this.running.add(entry);
+
+      entry.run(entry.request)
+        .catch(err => console.warn('Queued request failed:', err))
+        .finally(() => {
+          this.running.delete(entry);
+          entry.resolve();
+          this.pump();
+          this.notify();
+        });
+    }
+  }
+
+  private notify(): void {
+    this.onCountChange?.(this.size);
+  }
+}
@@ -0,0 +1,88 @@
+// Rasterises shadow polygons for a Mapbox image source
+//
+// Shadow pieces overlap (see projectShadow), so they are drawn opaque onto a
+// canvas and the map layer supplies the transparency. Later layers are drawn
+// over earlier ones.
+
+import { MapBounds } from '@/utils/mapBounds';
+
+export interface ShadowImageLayer {
+  polygons: number[][][][];
+  color: string;
+}
+
+export interface ShadowImage {
+  url: string; // PNG data URL
+  coordinates: [[number, number], [number, number], [number, number], [number, number]]; // NW, NE, SE, SW
+}
+
+// Longest side of the image in pixels
+const MAX_IMAGE_SIZE = 1024;
+
+const mercatorY = (lat: number): number =>
+  Math.log(Math.tan(Math.PI / 4 + (lat * Math.PI) / 360));
+
+const polygonsBounds = (layers: ShadowImageLayer[]): MapBounds | null => {
+  const bounds: MapBounds = { north: -Infinity, south: Infinity, east: -Infinity, west: Infinity };
+  for (const layer of layers) {
+    for (const polygon of layer.polygons) {
+      for (const [lng, lat] of polygon[0] || []) {
+        bounds.north = Math.max(bounds.north, lat);
+        bounds.south = Math.min(bounds.south, lat);
+        bounds.east = Math.max(bounds.east, lng);
+        bounds.west = Math.min(bounds.west, lng);
+      }
+    }
+  }
+  return bounds.north > bounds.south && bounds.east > bounds.west ? bounds : null;
+};
+
+// Null without shadows or where canvases are unavailable
+export const renderShadowImage = (layers: ShadowImageLayer[], maxSize = MAX_IMAGE_SIZE): ShadowImage | null => {
+  const bounds = polygonsBounds(layers);
+  if (!bounds || typeof document === 'undefined') return null;
+
+  // Image sources are stretched linearly in Web Mercator
+  const top = mercatorY(bounds.north);
+  const bottom = mercatorY(bounds.south);
+  const spanX = ((bounds.east - bounds.west) * Math.PI) / 180;
+  const spanY = top - bottom;
+  const scale = maxSize / Math.max(spanX, spanY);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.ceil(spanX * scale));
+  canvas.height = Math.max(1, Math.ceil(spanY * scale));
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+
+  const toPixel = ([lng, lat]: number[]): [number, number] => [
+    (((lng - bounds.west) * Math.PI) / 180) * scale,
+    (top - mercatorY(lat)) * scale
+  ];
+
+  for (const layer of layers) {
+    context.fillStyle = layer.color;
+    for (const polygon of layer.polygons) {
+      context.beginPath();
+      for (const ring of polygon) {
+        ring.forEach((coord, index) => {
+          const [x, y] = toPixel(coord);
+          if (index === 0) context.moveTo(x, y);
+          else context.lineTo(x, y);
+        });
+        context.closePath();
+      }
+      context.fill('evenodd');
+    }
+  }
+
+  return {
+    url: canvas.toDataURL('image/png'),
+    coordinates: [
+      [bounds.west, bounds.north],
+      [bounds.east, bounds.north],
+      [bounds.east, bounds.south],
+      [bounds.west, bounds.south]
+    ]
+  };
+};
@@ -0,0 +1,247 @@
+// Sun position, building shadows and hours of direct sun on facades
+//
+// The sun position follows the simplified astronomical formulas also used by
+// SunCalc (a fraction of a degree off, plenty for shadows). Buildings are
+// prisms from `minHeight` to `height`, and everything is computed on a local
+// metric plane around the study site, so a study should span a few hundred
+// metres at most.
+
+import { AreaGeometry } from '@/types/vienna';
+import { getPolygons, pointInPolygon, projectToMetres, signedRingArea } from '@/utils/geometry';
+
+// Stephansplatz
+export const VIENNA_LAT = 48.2085;
+export const VIENNA_LNG = 16.3731;
+
+// Below this altitude (degrees) the sun counts as set: buildings and terrain
+// block it anyway and shadows would run off the study area
+export const MIN_SUN_ALTITUDE = 3;
+
+export interface SunPosition {
+  azimuth: number; // degrees clockwise from north
+  altitude: number; // degrees above the horizon
+}
+
+export interface ShadowCaster {
+  id: string;
+  geometry: AreaGeometry;
+  height: number; // metres, top
+  minHeight: number; // metres, bottom
+}
+
+export interface Facade {
+  id: string; // "<building id>/<ring>/<edge>"
+  buildingId: string;
+  coordinates: [number[], number[]]; // [lng, lat] start and end
+  length: number; // metres
+  facing: number; // degrees clockwise from north
+}
+
+const RAD = Math.PI / 180;
+const DAY_MS = 86400000;
+const J1970 = 2440588;
+const J2000 = 2451545;
+const OBLIQUITY = RAD * 23.4397;
+
+export const getSunPosition = (date: Date, lat = VIENNA_LAT, lng = VIENNA_LNG): SunPosition => {
+  const days = date.valueOf() / DAY_MS - 0.5 + J1970 - J2000;
+
+  const anomaly = RAD * (357.5291 + 0.98560028 * days);
+  const centre = RAD * (1.9148 * Math.sin(anomaly) + 0.02 * Math.sin(2 * anomaly) + 0.0003 * Math.sin(3 * anomaly));
+  const longitude = anomaly + centre + RAD * 102.9372 + Math.PI;
+
+  const declination = Math.asin(Math.sin(OBLIQUITY) * Math.sin(longitude));
+  const rightAscension = Math.atan2(Math.sin(longitude) * Math.cos(OBLIQUITY), Math.cos(longitude));
+  const hourAngle = RAD * (280.16 + 360.9856235 * days) + RAD * lng - rightAscension;
+  const phi = RAD * lat;
+
+  const altitude = Math.asin(
+    Math.sin(phi) * Math.sin(declination) + Math.cos(phi) * Math.cos(declination) * Math.cos(hourAngle)
+  );
+  // Measured from south towards west, turned to clockwise from north
+  const azimuth = Math.atan2(
+    Math.sin(hourAngle),
+    Math.cos(hourAngle) * Math.sin(phi) - Math.tan(declination) * Math.cos(phi)
+  ) + Math.PI;
+
+  return { azimuth: azimuth / RAD, altitude: altitude / RAD };
+};
+
+export const isSunUp = (sun: SunPosition): boolean => sun.altitude >= MIN_SUN_ALTITUDE;
+
+// Horizontal unit vector pointing towards the sun, [east, north]
+const sunDirection = (sun: SunPosition): [number, number] =>
+  [Math.sin(sun.azimuth * RAD), Math.cos(sun.azimuth * RAD)];
+
+// Metres east/north around an origin and back
+export interface LocalFrame {
+  toLocal: (coord: number[]) => [number, number];
+  toLngLat: (point: number[]) => [number, number];
+}
+
+export const createLocalFrame = ([lng0, lat0]: [number, number]): LocalFrame => {
+  const [kx] = projectToMetres([1, 0], lat0);
+  const [, ky] = projectToMetres([0, 1], lat0);
+  return {
+    toLocal: ([lng, lat]) => [(lng - lng0) * kx, (lat - lat0) * ky],
+    toLngLat: ([x, y]) => [lng0 + x / kx, lat0 + y / ky]
+  };
+};
+
+// Shadow of a caster on the ground, as overlapping polygons whose union is
+// the shadow: the footprint at the bottom and top of the prism, and the
+// walls of every ring swept between them. Drawing them in one opaque colour
+// gives the exact shadow without polygon clipping. Empty when the sun is down.
+export const projectShadow = (caster: ShadowCaster, sun: SunPosition, frame: LocalFrame): number[][][][] => {
+  if (!isSunUp(sun) || caster.height <= caster.minHeight) return [];
+
+  const [dx, dy] = sunDirection(sun);
+  const perMetre = 1 / Math.tan(sun.altitude * RAD);
+  const offset = (height: number) => [-dx * height * perMetre, -dy * height * perMetre];
+  const [bx, by] = offset(caster.minHeight);
+  const [tx, ty] = offset(caster.height);
+
+  const pieces: number[][][][] = [];
+  for (const polygon of getPolygons(caster.geometry)) {
+    const local = polygon.map(ring => ring.map(frame.toLocal));
+    const shift = (x: number, y: number) =>
+      local.map(ring => ring.map(([px, py]) => frame.toLngLat([px + x, py + y])));
+
+    pieces.push(shift(bx, by), shift(tx, ty));
+    for (const ring of local) {
+      for (let i = 0; i < ring.length - 1; i++) {
+        const [ax, ay] = ring[i];
+        const [cx, cy] = ring[i + 1];
+        pieces.push([[
+          [ax + bx, ay + by], [cx + bx, cy + by], [cx + tx, cy + ty], [ax + tx, ay + ty], [ax + bx, ay + by]
+        ].map(frame.toLngLat)]);
+      }
+    }
+  }
+  return pieces;
+};
+
+// Walls of a building at least `minLength` long, including courtyard walls
+export const getFacades = (buildingId: string, geometry: AreaGeometry, frame: LocalFrame, minLength = 3): Facade[] => {
+  const facades: Facade[] = [];
+
+  getPolygons(geometry).forEach((polygon, polygonIndex) => polygon.forEach((ring, ringIndex) => {
+    // Outside is right of the walking direction on counter-clockwise outer
+    // rings and clockwise holes
+    const outsideRight = (signedRingArea(ring) > 0) === (ringIndex === 0);
+
+    for (let i = 0; i < ring.length - 1; i++) {
+      const [ax, ay] = frame.toLocal(ring[i]);
+      const [bx, by] = frame.toLocal(ring[i + 1]);
+      const length = Math.hypot(bx - ax, by - ay);
+      if (length < minLength) continue;
+
+      const [nx, ny] = outsideRight ? [by - ay, ax - bx] : [ay - by, bx - ax];
+      facades.push({
+        id: `${buildingId}/${polygonIndex}.${ringIndex}/${i}`,
+        buildingId,
+        coordinates: [ring[i], ring[i + 1]],
+        length,
+        facing: (Math.atan2(nx, ny) / RAD + 360) % 360
+      });
+    }
+  }));
+
+  return facades;
+};
+
+const COMPASS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+export const compassDirection = (degrees: number): string =>
+  COMPASS[Math.round(degrees / 45) % 8];
+
+interface PreparedCaster {
+  polygons: number[][][][]; // local metres
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+  height: number;
+  minHeight: number;
+}
+
+const prepareCaster = (caster: ShadowCaster, frame: LocalFrame): PreparedCaster => {
+  const polygons = getPolygons(caster.geometry).map(polygon => polygon.map(ring => ring.map(frame.toLocal)));
+  const points = polygons.flatMap(polygon => polygon[0] || []);
+  return {
+    polygons,
+    minX: Math.min(...points.map(([x]) => x)),
+    minY: Math.min(...points.map(([, y]) => y)),
+    maxX: Math.max(...points.map(([x]) => x)),
+    maxY: Math.max(...points.map(([, y]) => y)),
+    height: caster.height,
+    minHeight: caster.minHeight
+  };
+};
+
+const cross = (o: number[], a: number[], b: number[]): number =>
+  (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+
+const segmentsCross = (a: number[], b: number[], c: number[], d: number[]): boolean =>
+  (cross(a, b, c) > 0) !== (cross(a, b, d) > 0) && (cross(c, d, a) > 0) !== (cross(c, d, b) > 0);
+
+const segmentHitsPolygon = (a: number[], b: number[], polygon: number[][][]): boolean =>
+  pointInPolygon(a, polygon) ||
+  polygon.some(ring => ring.some((point, i) => i > 0 && segmentsCross(a, b, ring[i - 1], point)));
+
+// Whether a point at height z is in the shadow of any caster: the ray
+// towards the sun passes through a prism while between its bottom and top
+const isShadowed = (point: number[], z: number, sun: SunPosition, casters: PreparedCaster[]): boolean => {
+  const [dx, dy] = sunDirection(sun);
+  const slope = Math.tan(sun.altitude * RAD);
+
+  return casters.some(caster => {
+    if (z >= caster.height) return false;
+    const near = Math.max(0, (caster.minHeight - z) / slope);
+    const far = (caster.height - z) / slope;
+    const a = [point[0] + dx * near, point[1] + dy * near];
+    const b = [point[0] + dx * far, point[1] + dy * far];
+
+    if (Math.max(a[0], b[0]) < caster.minX || Math.min(a[0], b[0]) > caster.maxX ||
+        Math.max(a[1], b[1]) < caster.minY || Math.min(a[1], b[1]) > caster.maxY) return false;
+    return caster.polygons.some(polygon => segmentHitsPolygon(a, b, polygon));
+  });
+};
+
+export interface SunHoursOptions {
+  times: Date[]; // evenly spaced sample times
+  stepHours: number; // time each sample stands for
+  sampleHeight?: number; // metres above ground, e.g. a ground-floor window
+}
+
+// Hours of direct sun on each facade, averaged over points at a quarter,
+// half and three quarters of its length
+export const computeSunHours = (
+  facades: Facade[],
+  casters: ShadowCaster[],
+  frame: LocalFrame,
+  { times, stepHours, sampleHeight = 1.5 }: SunHoursOptions
+): number[] => {
+  const prepared = casters.map(caster => prepareCaster(caster, frame));
+  const suns = times.map(time => getSunPosition(time)).filter(isSunUp);
+
+  return facades.map(facade => {
+    const [a, b] = facade.coordinates.map(frame.toLocal);
+    const [nx, ny] = [Math.sin(facade.facing * RAD), Math.cos(facade.facing * RAD)];
+    // Just in front of the wall, so the building itself is not hit
+    const samples = [0.25, 0.5, 0.75].map(t => [
+      a[0] + (b[0] - a[0]) * t + nx * 0.1,
+      a[1] + (b[1] - a[1]) * t + ny * 0.1
+    ]);
+
+    let hours = 0;
+    for (const sun of suns) {
+      const [dx, dy] = sunDirection(sun);
+      if (dx * nx + dy * ny <= 0) continue; // sun behind the wall
+
+      const lit = samples.filter(sample => !isShadowed(sample, sampleHeight, sun, prepared)).length;
+      hours += (stepHours * lit) / samples.length;
+    }
+    return hours;
+  });
+};
@@ -0,0 +1,211 @@
+// Rooftop solar potential of a building
+//
+// Roof planes are derived from the footprint and the OSM roof tags
+// (`roof:shape`, `roof:orientation`, `roof:direction`, `roof:angle`), with
+// typical pitches where the angle is not tagged. Each plane's yield comes from
+// the irradiation on an optimally oriented module in Vienna, scaled by how far
+// its tilt and orientation are from that optimum.
+
+import { ViennaBuilding } from '@/types/vienna';
+import { geometryArea, getMainRing, projectToMetres } from '@/utils/geometry';
+import { TracedValue } from '@/utils/developmentPotential';
+
+// kWh/m² per year on a module facing south at ~35°, Vienna (PVGIS ballpark)
+export const OPTIMAL_IRRADIATION = 1350;
+export const MODULE_EFFICIENCY = 0.2; // ~200 Wp per m² of module
+export const PERFORMANCE_RATIO = 0.8; // inverter, cabling, heat and soiling losses
+
+// Share of a pitched plane free of edges, chimneys and dormers
+const PITCHED_USABLE_SHARE = 0.7;
+// Share of a flat roof covered by tilted module rows, leaving edge distance
+// and row spacing
+const FLAT_USABLE_SHARE = 0.5;
+const FLAT_MODULE_TILT = 15;
+// Planes yielding less than this share of the optimum are not worth covering
+const MIN_RELATIVE_YIELD = 0.65;
+
+// Yield relative to the optimum by tilt (rows) and deviation from south
+// (columns: 0°, 45°, 90°, 135°, 180°), approximate values for ~48° N as in
+// common PV orientation charts
+const TILTS = [0, 15, 30, 45, 60, 90];
+const DEVIATIONS = [0, 45, 90, 135, 180];
+const RELATIVE_YIELD = [
+  [0.87, 0.87, 0.87, 0.87, 0.87],
+  [0.96, 0.93, 0.86, 0.78, 0.75],
+  [1.0, 0.95, 0.83, 0.7, 0.64],
+  [0.99, 0.93, 0.78, 0.61, 0.53],
+  [0.93, 0.87, 0.72, 0.53, 0.43],
+  [0.7, 0.66, 0.55, 0.38, 0.3]
+];
+
+type RoofType = 'flat' | 'gabled' | 'hipped' | 'pyramidal' | 'skillion';
+
+// OSM roof:shape values by the planes they are modelled with, and the pitch
+// assumed when roof:angle is missing
+const ROOF_SHAPES: Record<string, { type: RoofType; pitch: number }> = {
+  flat: { type: 'flat', pitch: 0 },
+  gabled: { type: 'gabled', pitch: 40 },
+  saltbox: { type: 'gabled', pitch: 40 },
+  gambrel: { type: 'gabled', pitch: 45 },
+  mansard: { type: 'gabled', pitch: 45 },
+  round: { type: 'gabled', pitch: 25 },
+  hipped: { type: 'hipped', pitch: 35 },
+  'half-hipped': { type: 'hipped', pitch: 40 },
+  side_hipped: { type: 'hipped', pitch: 35 },
+  pyramidal: { type: 'pyramidal', pitch: 35 },
+  skillion: { type: 'skillion', pitch: 15 }
+};
+
+export interface RoofPlane {
+  facing: number; // degrees clockwise from north
+  tilt: number; // degrees
+  area: number; // m², sloped surface
+  usableArea: number; // m² of modules
+  relativeYield: number; // share of an optimally oriented module
+  annualYield: number; // kWh per year
+}
+
+export interface SolarPotential {
+  roofShape: string;
+  roofSource: string; // where the roof model comes from
+  planes: RoofPlane[];
+  usableArea: TracedValue;
+  peakPower: TracedValue;
+  annualYield: TracedValue;
+  warnings: string[];
+}
+
+const COMPASS_POINTS = ['N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE', 'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW'];
+
+// roof:direction as degrees ("225") or a compass point ("SW")
+export const parseCompassDirection = (value?: string): number | undefined => {
+  if (!value) return undefined;
+  const index = COMPASS_POINTS.indexOf(value.trim().toUpperCase());
+  if (index !== -1) return index * 22.5;
+
+  const degrees = parseFloat(value);
+  return isNaN(degrees) ? undefined : ((degrees % 360) + 360) % 360;
+};
+
+const interpolate = (values: number[], at: number): [number, number, number] => {
+  const index = Math.max(0, values.findIndex((value, i) => i === values.length - 1 || values[i + 1] >= at));
+  const upper = Math.min(index + 1, values.length - 1);
+  const span = values[upper] - values[index];
+  return [index, upper, span > 0 ? Math.min(1, Math.max(0, (at - values[index]) / span)) : 0];
+};
+
+// Bilinear lookup in the orientation chart
+export const getRelativeYield = (tilt: number, facing: number): number => {
+  const deviation = Math.abs(((facing - 180 + 540) % 360) - 180);
+  const [t0, t1, tf] = interpolate(TILTS, Math.min(90, Math.max(0, tilt)));
+  const [d0, d1, df] = interpolate(DEVIATIONS, deviation);
+
+  const row = (t: number) => RELATIVE_YIELD[t][d0] + (RELATIVE_YIELD[t][d1] - RELATIVE_YIELD[t][d0]) * df;
+  return row(t0) + (row(t1) - row(t0)) * tf;
+};
+
+// Direction of the longest outer wall, in degrees from north (0–180)
+export const getMainAxis = (building: ViennaBuilding): number => {
+  const ring = getMainRing(building.geometry);
+  const originLat = ring[0]?.[1] ?? 48.2;
+  let longest = 0;
+  let axis = 90;
+
+  for (let i = 0; i < ring.length - 1; i++) {
+    const [ax, ay] = projectToMetres(ring[i], originLat);
+    const [bx, by] = projectToMetres(ring[i + 1], originLat);
+    const length = Math.hypot(bx - ax, by - ay);
+    if (length > longest) {
+      longest = length;
+      axis = ((Math.atan2(bx - ax, by - ay) * 180) / Math.PI + 360) % 180;
+    }
+  }
+  return axis;
+};
+
+const createPlane = (facing: number, tilt: number, horizontalArea: number, usableShare: number): RoofPlane => {
+  const area = horizontalArea / Math.cos((tilt * Math.PI) / 180);
+  const relativeYield = getRelativeYield(tilt, facing);
+  const usableArea = relativeYield >= MIN_RELATIVE_YIELD ? area * usableShare : 0;
+  return {
+    facing: Math.round(((facing % 360) + 360) % 360),
+    tilt,
+    area: Math.round(area),
+    usableArea: Math.round(usableArea),
+    relativeYield,
+    annualYield: Math.round(usableArea * OPTIMAL_IRRADIATION * relativeYield * MODULE_EFFICIENCY * PERFORMANCE_RATIO)
+  };
+};
+
+// Of two opposite directions, the one closer to south
+const southernmost = (a: number, b: number): number =>
+  Math.abs(((a - 180 + 540) % 360) - 180) <= Math.abs(((b - 180 + 540) % 360) - 180) ? a : b;
+
+export const estimateSolarPotential = (building: ViennaBuilding): SolarPotential => {
+  const { DACHFORM, DACHAUSRICHTUNG, DACHRICHTUNG, DACHNEIGUNG } = building.properties;
+  const warnings: string[] = [];
+  const footprint = geometryArea(building.geometry);
+
+  const known = DACHFORM ? ROOF_SHAPES[DACHFORM] : ROOF_SHAPES.flat;
+  const roofShape = DACHFORM || 'flat';
+  let roofSource = DACHFORM ? `roof:shape=${DACHFORM}` : 'No roof:shape tagged, assumed flat (OSM default)';
+  if (!DACHFORM) warnings.push('Roof shape unknown - estimated as a flat roof');
+
+  let planes: RoofPlane[] = [];
+  if (!known) {
+    warnings.push(`Roof shape "${DACHFORM}" is not suited to standard modules`);
+  } else if (known.type === 'flat') {
+    planes = [createPlane(180, FLAT_MODULE_TILT, footprint * FLAT_USABLE_SHARE, 1)];
+    roofSource += `, modules tilted ${FLAT_MODULE_TILT}° south`;
+  } else {
+    const pitch = DACHNEIGUNG ?? known.pitch;
+    const ridge = getMainAxis(building) + (DACHAUSRICHTUNG === 'across' ? 90 : 0);
+    roofSource += `, ${pitch}° pitch${DACHNEIGUNG === undefined ? ' (typical)' : ''}`;
+
+    switch (known.type) {
+      case 'gabled':
+        planes = [ridge + 90, ridge - 90].map(facing => createPlane(facing, pitch, footprint / 2, PITCHED_USABLE_SHARE));
+        break;
+      case 'hipped':
+        // Long sides get the large trapezoids, the ends the small triangles
+        planes = [
+          ...[ridge + 90, ridge - 90].map(facing => createPlane(facing, pitch, footprint * 0.35, PITCHED_USABLE_SHARE)),
+          ...[ridge, ridge + 180].map(facing => createPlane(facing, pitch, footprint * 0.15, PITCHED_USABLE_SHARE))
+        ];
+        break;
+      case 'pyramidal':
+        planes = [0, 90, 180, 270].map(offset => createPlane(ridge + offset, pitch, footprint / 4, PITCHED_USABLE_SHARE));
+        break;
+      case 'skillion':
+        planes = [createPlane(DACHRICHTUNG ?? southernmost(ridge + 90, ridge - 90), pitch, footprint, PITCHED_USABLE_SHARE)];
+        if (DACHRICHTUNG === undefined) roofSource += ', slope towards the sunnier side assumed';
+        break;
+    }
+  }
+
+  const usable = planes.reduce((sum, plane) => sum + plane.usableArea, 0);
+  const annual = planes.reduce((sum, plane) => sum + plane.annualYield, 0);
+
+  return {
+    roofShape,
+    roofSource,
+    planes,
+    usableArea: {
+      value: usable,
+      unit: 'm²',
+      source: `Roof planes yielding at least ${MIN_RELATIVE_YIELD * 100}% of the optimum, less edges and fixtures`
+    },
+    peakPower: {
+      value: +(usable * MODULE_EFFICIENCY).toFixed(1),
+      unit: 'kWp',
+      source: `${usable} m² × ${MODULE_EFFICIENCY * 1000} Wp/m²`
+    },
+    annualYield: {
+      value: Math.round(annual / 100) * 100,
+      unit: 'kWh/a',
+      source: `${OPTIMAL_IRRADIATION} kWh/m² optimal irradiation × orientation factor × ` +
+        `${MODULE_EFFICIENCY * 100}% efficiency × ${PERFORMANCE_RATIO} performance ratio`
+    },
+    warnings
+  };
+};
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { FetchLike, createViennaOgdClient } from '@/utils/viennaOgd';
+import { MapBounds } from '@/utils/mapBounds';
+import zoningFixture from './__fixtures__/wfs/zoning.json';
+import districtsFixture from './__fixtures__/wfs/districts.json';
+import buildingAgesFixture from './__fixtures__/wfs/building-ages.json';
+
+const BOUNDS: MapBounds = { west: 16.369, south: 48.208, east: 16.376, north: 48.210 };
+
+// Serves the recorded WFS response for the requested layer and records the URLs
+const createFixtureFetch = (responses: Record<string, unknown>) => {
+  const requests: URL[] = [];
+  const fetch: FetchLike = async input => {
+    const url = new URL(input);
+    requests.push(url);
+    const body = responses[url.searchParams.get('typeName') || ''];
+    return body
+      ? new Response(JSON.stringify(body), { status: 200 })
+      : new Response('Unknown layer', { status: 404 });
+  };
+  return { fetch, requests };
+};
+
+const createClient = () => {
+  const fixtures = createFixtureFetch({
+    'ogdwien:FLAECHENWIDMUNGOGD': zoningFixture,
+    'ogdwien:BEZIRKSGRENZEOGD': districtsFixture,
+    'ogdwien:GEBAEUDEALTEROGD': buildingAgesFixture
+  });
+  return { client: createViennaOgdClient({ fetch: fixtures.fetch }), requests: fixtures.requests };
+};
+
+describe('createViennaOgdClient', () => {
+  it('requests zoning for the bounds in lon/lat order', async () => {
+    const { client, requests } = createClient();
+    await client.fetchZoning(BOUNDS);
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].searchParams.get('bbox')).toBe('16.369,48.208,16.376,48.21,EPSG:4326');
+    expect(requests[0].searchParams.get('srsName')).toBe('EPSG:4326');
+    expect(requests[0].searchParams.get('outputFormat')).toBe('json');
+  });
+
+  it('normalises zoning codes and heights', async () => {
+    const { client } = createClient();
+    const { features } = await client.fetchZoning(BOUNDS);
+
+    expect(features[0]).toMatchObject({
+      id: 'FLAECHENWIDMUNGOGD.4711',
+      properties: {
+        WIDMUNG: 'Gemischtes Baugebiet',
+        BAUKLASSE: 'IV',
+        BAUWEISE: 'geschlossene Bauweise',
+        MAX_HOEHE: 21.5
+      }
+    });
+    // Alternative attribute names, and a zero height meaning no limit
+    expect(features[1].properties).toMatchObject({ WIDMUNG: 'Wohngebiet', BAUKLASSE: 'III', BAUWEISE: 'offene Bauweise' });
+    expect(features[1].properties.MAX_HOEHE).toBeUndefined();
+  });
+
+  it('splits multipolygons and skips features without geometry', async () => {
+    const { client } = createClient();
+    const { features } = await client.fetchZoning(BOUNDS);
+
+    expect(features.map(feature => feature.geometry.type)).toEqual(['Polygon', 'Polygon', 'Polygon', 'Polygon']);
+    expect(features[1].id).toBe('FLAECHENWIDMUNGOGD.4712#0');
+    expect(features[2].id).toBe('FLAECHENWIDMUNGOGD.4712#1');
+  });
+
+  it('derives a stable id for features the WFS sends without one', async () => {
+    const first = await createClient().client.fetchZoning(BOUNDS);
+    const second = await createClient().client.fetchZoning(BOUNDS);
+
+    expect(first.features[3].id).toMatch(/^geom:[0-9a-f]{8}$/);
+    expect(second.features[3].id).toBe(first.features[3].id);
+  });
+
+  it('loads districts unchanged', async () => {
+    const { client } = createClient();
+    const { features } = await client.fetchDistricts();
+
+    expect(features).toHaveLength(1);
+    expect(features[0].properties).toEqual({ NAMEK: 'Innere Stadt', BEZNR: 1 });
+  });
+
+  it('parses building periods from text and year columns', async () => {
+    const { client } = createClient();
+    const { features } = await client.fetchBuildingAges(BOUNDS);
+
+    expect(features.map(feature => [feature.id, feature.properties.BAUJAHR_VON, feature.properties.BAUJAHR_BIS])).toEqual([
+      ['GEBAEUDEALTEROGD.101', 1919, 1944],
+      ['GEBAEUDEALTEROGD.102', undefined, 1848],
+      ['GEBAEUDEALTEROGD.103', 1961, 1970]
+    ]);
+    expect(features[2].geometry.type).toBe('MultiPolygon');
+  });
+
+  it('rejects when the WFS answers with an error', async () => {
+    const client = createViennaOgdClient({ fetch: async () => new Response('', { status: 503 }) });
+
+    await expect(client.fetchZoning(BOUNDS)).rejects.toThrow('Vienna WFS request failed: 503');
+  });
+});
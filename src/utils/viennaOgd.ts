@@ -0,0 +1,229 @@
+// Data source for Vienna's Open Government Data (OGD) WFS layers
+//
+// The fetch implementation is injectable so the client can run against
+// recorded fixture responses without network access.
+
+import { MapBounds } from '@/utils/mapBounds';
+import { ViennaBuildingAge, ViennaDistrict, ViennaZoning, FeatureCollection } from '@/types/vienna';
+import { geometryHash } from '@/utils/geometry';
+
+export type FetchLike = (input: string, init?: RequestInit) => Promise<Response>;
+
+export const VIENNA_WFS_URL = 'https://data.wien.gv.at/daten/geo';
+export const DISTRICT_TYPE_NAME = 'ogdwien:BEZIRKSGRENZEOGD';
+export const ZONING_TYPE_NAME = 'ogdwien:FLAECHENWIDMUNGOGD';
+export const BUILDING_AGE_TYPE_NAME = 'ogdwien:GEBAEUDEALTEROGD';
+
+export interface ViennaOgdClientOptions {
+  fetch?: FetchLike;
+  baseUrl?: string;
+  zoningTypeName?: string;
+  buildingAgeTypeName?: string;
+}
+
+export interface ViennaOgdClient {
+  fetchDistricts: (init?: RequestInit) => Promise<FeatureCollection<ViennaDistrict>>;
+  fetchZoning: (bounds: MapBounds, init?: RequestInit) => Promise<FeatureCollection<ViennaZoning>>;
+  fetchBuildingAges: (bounds: MapBounds, init?: RequestInit) => Promise<FeatureCollection<ViennaBuildingAge>>;
+}
+
+interface RawFeature {
+  id?: string | number;
+  properties?: Record<string, unknown> | null;
+  geometry?: {
+    type: string;
+    coordinates: unknown;
+  } | null;
+}
+
+// Flächenwidmung codes used in the zoning plan
+const WIDMUNG_LABELS: Record<string, string> = {
+  W: 'Wohngebiet',
+  GB: 'Gemischtes Baugebiet',
+  GBGV: 'Geschäftsviertel',
+  GBBG: 'Betriebsbaugebiet',
+  I: 'Industriegebiet',
+  GS: 'Gartensiedlungsgebiet',
+  L: 'Ländliches Gebiet',
+  EPK: 'Parkanlage',
+  EKL: 'Kleingartengebiet',
+  ESP: 'Sport- und Spielplätze',
+  SWW: 'Schutzgebiet Wald- und Wiesengürtel',
+  VB: 'Verkehrsband',
+  SO: 'Sondergebiet'
+};
+
+// Bauweise codes (WBO §76)
+const BAUWEISE_LABELS: Record<string, string> = {
+  G: 'geschlossene Bauweise',
+  O: 'offene Bauweise',
+  GK: 'gekuppelte Bauweise',
+  OG: 'offene oder gekuppelte Bauweise',
+  GR: 'Gruppenbauweise'
+};
+
+// Attribute names differ between dataset versions; take the first one present
+const pickProperty = (properties: Record<string, unknown>, keys: string[]): string | undefined => {
+  for (const key of keys) {
+    const value = properties[key];
+    if (value !== undefined && value !== null && `${value}`.trim() !== '') {
+      return `${value}`.trim();
+    }
+  }
+  return undefined;
+};
+
+// WFS feature id (e.g. "FLAECHENWIDMUNGOGD.1234"), or one derived from the
+// geometry, so reloading an area never adds the same polygon twice
+const featureId = (raw: RawFeature): string =>
+  raw.id !== undefined && raw.id !== null ? `${raw.id}` : `geom:${geometryHash(raw.geometry?.coordinates)}`;
+
+const parseHeight = (value: string | undefined): number | undefined => {
+  if (!value) return undefined;
+  const height = parseFloat(value.replace(',', '.'));
+  return isNaN(height) || height <= 0 ? undefined : height;
+};
+
+// Turn one raw WFS feature into zoning polygons. Multipolygons are split so
+// each part can be tested and rendered on its own.
+export const normaliseZoningFeature = (raw: RawFeature): ViennaZoning[] => {
+  if (!raw.geometry) return [];
+
+  const properties = raw.properties || {};
+  const widmungCode = pickProperty(properties, ['WIDMUNG', 'WIDMUNG_KURZ', 'WIDMUNGSKLASSE', 'FLAECHENWIDMUNG']);
+  const bauweiseCode = pickProperty(properties, ['BAUWEISE', 'BAUWEISE_KURZ']);
+
+  const zoningProperties: ViennaZoning['properties'] = {
+    WIDMUNG: widmungCode ? WIDMUNG_LABELS[widmungCode.toUpperCase()] || widmungCode : undefined,
+    NUTZUNGSART: pickProperty(properties, ['NUTZUNGSART', 'WIDMUNG_TXT', 'WIDMUNG_LANG']),
+    BAUKLASSE: pickProperty(properties, ['BAUKLASSE', 'BAUKL', 'BAUKLASSE_TXT']),
+    BAUWEISE: bauweiseCode ? BAUWEISE_LABELS[bauweiseCode.toUpperCase()] || bauweiseCode : undefined,
+    MAX_HOEHE: parseHeight(pickProperty(properties, ['MAX_HOEHE', 'GEBAEUDEHOEHE', 'GEB_HOEHE', 'HOEHE_MAX'])),
+    MIN_HOEHE: parseHeight(pickProperty(properties, ['MIN_HOEHE', 'HOEHE_MIN']))
+  };
+
+  const id = featureId(raw);
+  const { type, coordinates } = raw.geometry;
+
+  if (type === 'Polygon') {
+    return [{
+      type: 'Feature',
+      id,
+      properties: zoningProperties,
+      geometry: { type: 'Polygon', coordinates: coordinates as number[][][] }
+    }];
+  }
+
+  if (type === 'MultiPolygon') {
+    return (coordinates as number[][][][]).map((polygon, index) => ({
+      type: 'Feature' as const,
+      id: `${id}#${index}`,
+      properties: zoningProperties,
+      geometry: { type: 'Polygon' as const, coordinates: polygon }
+    }));
+  }
+
+  return [];
+};
+
+const parseYear = (value: string | undefined): number | undefined => {
+  const year = value ? parseInt(value) : NaN;
+  return isNaN(year) ? undefined : year;
+};
+
+// Building footprint with its construction period. Periods come either as
+// year columns or as text such as "1919 - 1944", "vor 1919" or "nach 2000".
+export const normaliseBuildingAgeFeature = (raw: RawFeature): ViennaBuildingAge | null => {
+  if (!raw.geometry || (raw.geometry.type !== 'Polygon' && raw.geometry.type !== 'MultiPolygon')) return null;
+
+  const properties = raw.properties || {};
+  const period = pickProperty(properties, ['BAUPERIODE', 'L_BAUPERIODE', 'BAUPERIODE_TXT', 'GEBAEUDEALTER']);
+  const years = (period?.match(/\d{4}/g) || []).map(Number);
+  const openStart = period ? /^\s*(vor|bis)\b/i.test(period) : false;
+  const openEnd = period ? /^\s*(nach|ab)\b/i.test(period) : false;
+
+  let from = parseYear(pickProperty(properties, ['BAUJAHR_VON', 'BAUJ_VON', 'JAHR_VON', 'BAUJAHR']));
+  let to = parseYear(pickProperty(properties, ['BAUJAHR_BIS', 'BAUJ_BIS', 'JAHR_BIS', 'BAUJAHR']));
+  if (from === undefined && to === undefined && years.length > 0) {
+    from = openStart ? undefined : years[0];
+    to = openEnd ? undefined : years[years.length - 1];
+  }
+  if (from === undefined && to === undefined) return null;
+
+  return {
+    type: 'Feature',
+    id: featureId(raw),
+    properties: { BAUPERIODE: period, BAUJAHR_VON: from, BAUJAHR_BIS: to },
+    geometry: raw.geometry.type === 'Polygon'
+      ? { type: 'Polygon', coordinates: raw.geometry.coordinates as number[][][] }
+      : { type: 'MultiPolygon', coordinates: raw.geometry.coordinates as number[][][][] }
+  };
+};
+
+export const createViennaOgdClient = (options: ViennaOgdClientOptions = {}): ViennaOgdClient => {
+  const fetchImpl: FetchLike = options.fetch || ((input, init) => fetch(input, init));
+  const baseUrl = options.baseUrl || VIENNA_WFS_URL;
+  const zoningTypeName = options.zoningTypeName || ZONING_TYPE_NAME;
+  const buildingAgeTypeName = options.buildingAgeTypeName || BUILDING_AGE_TYPE_NAME;
+
+  const buildUrl = (typeName: string, extra: Record<string, string> = {}): string => {
+    const params = new URLSearchParams({
+      service: 'WFS',
+      request: 'GetFeature',
+      version: '1.1.0',
+      typeName,
+      srsName: 'EPSG:4326',
+      outputFormat: 'json',
+      ...extra
+    });
+    return `${baseUrl}?${params.toString()}`;
+  };
+
+  const getFeatures = async (url: string, init?: RequestInit) => {
+    const response = await fetchImpl(url, init);
+
+    if (!response.ok) {
+      throw new Error(`Vienna WFS request failed: ${response.status}`);
+    }
+
+    return response.json();
+  };
+
+  // WFS 1.1.0 with a plain EPSG code expects lon/lat axis order
+  const toBbox = (bounds: MapBounds): string =>
+    `${bounds.west},${bounds.south},${bounds.east},${bounds.north},EPSG:4326`;
+
+  return {
+    fetchDistricts: async (init) => {
+      const data = await getFeatures(buildUrl(DISTRICT_TYPE_NAME), init);
+      return {
+        type: 'FeatureCollection',
+        features: data.features || []
+      };
+    },
+
+    fetchZoning: async (bounds, init) => {
+      const data = await getFeatures(buildUrl(zoningTypeName, { bbox: toBbox(bounds) }), init);
+      const rawFeatures: RawFeature[] = data.features || [];
+
+      return {
+        type: 'FeatureCollection',
+        features: rawFeatures.flatMap(normaliseZoningFeature)
+      };
+    },
+
+    fetchBuildingAges: async (bounds, init) => {
+      const data = await getFeatures(buildUrl(buildingAgeTypeName, { bbox: toBbox(bounds) }), init);
+      const rawFeatures: RawFeature[] = data.features || [];
+
+      return {
+        type: 'FeatureCollection',
+        features: rawFeatures
+          .map(normaliseBuildingAgeFeature)
+          .filter((feature): feature is ViennaBuildingAge => feature !== null)
+      };
+    }
+  };
+};
+
+export const viennaOgdClient = createViennaOgdClient();
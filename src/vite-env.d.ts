@@ -1 +1,12 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_CHAT_PROVIDER?: string;
+  readonly VITE_CHAT_BASE_URL?: string;
+  readonly VITE_CHAT_MODEL?: string;
+  readonly VITE_OVERPASS_ENDPOINTS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -0,0 +1,61 @@
+// Fetches, parses and converts Overpass queries off the main thread
+
+import { convertOSMToGeoJSON } from '@/utils/osm';
+import { overpassClient } from '@/utils/overpass';
+import type { OverpassLoadProgress, OverpassWorkerRequest, OverpassWorkerResponse } from './overpassProtocol';
+
+// Minimum time between download progress messages
+const PROGRESS_INTERVAL_MS = 100;
+
+// The app compiles against the DOM lib, so type the worker scope by hand
+const scope = self as unknown as {
+  postMessage: (message: OverpassWorkerResponse) => void;
+  onmessage: ((event: MessageEvent<OverpassWorkerRequest>) => void) | null;
+};
+const controllers = new Map<number, AbortController>();
+
+const load = async (id: number, query: string) => {
+  const controller = new AbortController();
+  controllers.set(id, controller);
+
+  let lastProgress = 0;
+  const reportProgress = (progress: OverpassLoadProgress, force = false) => {
+    const now = Date.now();
+    if (!force && now - lastProgress < PROGRESS_INTERVAL_MS) return;
+    lastProgress = now;
+    scope.postMessage({ type: 'progress', id, progress });
+  };
+
+  try {
+    const data = await overpassClient.query(query, {
+      signal: controller.signal,
+      onRetry: retry => scope.postMessage({ type: 'retry', id, retry }),
+      onProgress: loaded => reportProgress({ stage: 'downloading', loaded, total: null })
+    });
+    if (controller.signal.aborted) throw new DOMException('Request aborted', 'AbortError');
+
+    const result = convertOSMToGeoJSON(data, (processed, total) =>
+      reportProgress({ stage: 'converting', loaded: processed, total }, processed === 0)
+    );
+    scope.postMessage({ type: 'result', id, result });
+  } catch (err) {
+    scope.postMessage({
+      type: 'error',
+      id,
+      message: err instanceof Error ? err.message : 'Failed to load buildings',
+      aborted: controller.signal.aborted
+    });
+  } finally {
+    controllers.delete(id);
+  }
+};
+
+scope.onmessage = (event: MessageEvent<OverpassWorkerRequest>) => {
+  const message = event.data;
+
+  if (message.type === 'load') {
+    load(message.id, message.query);
+  } else if (message.type === 'cancel') {
+    controllers.get(message.id)?.abort();
+  }
+};
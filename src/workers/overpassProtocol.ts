@@ -0,0 +1,26 @@
+// Messages between the main thread and the Overpass worker
+//
+// The worker fetches, parses and converts one query per `load` message and
+// answers with any number of `progress`/`retry` messages followed by exactly
+// one `result` or `error` with the same id.
+
+import type { OsmConversionResult } from '@/utils/osm';
+import type { OverpassRetry } from '@/utils/overpass';
+
+export type OverpassLoadStage = 'downloading' | 'converting';
+
+export interface OverpassLoadProgress {
+  stage: OverpassLoadStage;
+  loaded: number; // bytes while downloading, elements while converting
+  total: number | null;
+}
+
+export type OverpassWorkerRequest =
+  | { type: 'load'; id: number; query: string }
+  | { type: 'cancel'; id: number };
+
+export type OverpassWorkerResponse =
+  | { type: 'progress'; id: number; progress: OverpassLoadProgress }
+  | { type: 'retry'; id: number; retry: OverpassRetry }
+  | { type: 'result'; id: number; result: OsmConversionResult }
+  | { type: 'error'; id: number; message: string; aborted: boolean };